@@ -0,0 +1,133 @@
+import Fastify, { type FastifyRequest } from 'fastify';
+import cors from '@fastify/cors';
+import multipart from '@fastify/multipart';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+import {
+  jsonSchemaTransform,
+  serializerCompiler,
+  validatorCompiler,
+  ResponseValidationError,
+  type ZodTypeProvider,
+} from 'fastify-type-provider-zod';
+import { ZodError } from 'zod';
+import { config } from './config/index.js';
+import { uploadRoutes } from './routes/upload.routes.js';
+import { artifactRoutes } from './routes/artifact.routes.js';
+import { adminRoutes } from './routes/admin.routes.js';
+import { metricsRoutes } from './routes/metrics.routes.js';
+import { redactQueryCredentials } from './utils/http.js';
+
+/**
+ * Create the Fastify instance with every plugin and route registered, without
+ * listening
+ */
+export async function buildApp() {
+  const fastify = Fastify({
+    logger: {
+      level: config.NODE_ENV === 'development' ? 'info' : 'warn',
+      transport:
+        config.NODE_ENV === 'development'
+          ? {
+              target: 'pino-pretty',
+            }
+          : undefined,
+      serializers: {
+        // Fastify's default, minus credentials passed in the query string
+        req: (request: FastifyRequest) => ({
+          method: request.method,
+          url: redactQueryCredentials(request.url),
+          hostname: request.hostname,
+          remoteAddress: request.ip,
+          remotePort: request.socket?.remotePort,
+        }),
+      },
+    },
+    bodyLimit: config.MAX_FILE_SIZE,
+  }).withTypeProvider<ZodTypeProvider>();
+
+  // Route schemas are Zod schemas: requests are parsed with them and responses
+  // are checked against them before they are sent
+  fastify.setValidatorCompiler(validatorCompiler);
+  fastify.setSerializerCompiler(serializerCompiler);
+
+  // Register CORS
+  await fastify.register(cors, {
+    origin: config.CORS_ORIGIN,
+    credentials: true,
+  });
+
+  // Register multipart/form-data support
+  await fastify.register(multipart, {
+    limits: {
+      fileSize: config.MAX_FILE_SIZE,
+      files: 1,
+    },
+  });
+
+  // OpenAPI document generated from the route schemas
+  await fastify.register(swagger, {
+    openapi: {
+      info: {
+        title: 'Artifact Uploader API',
+        description: 'Chunked, resumable uploads to S3-compatible storage',
+        version: '1.0.0',
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+          apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        },
+      },
+      // Only enforced when AUTH_ENABLED is true
+      security: [{ bearerAuth: [] }, { apiKey: [] }],
+    },
+    transform: jsonSchemaTransform,
+  });
+
+  await fastify.register(swaggerUi, { routePrefix: '/api/docs' });
+
+  fastify.get('/api/openapi.json', { schema: { hide: true } }, async () => fastify.swagger());
+
+  // Global error handler (set before routes are registered so they inherit it)
+  fastify.setErrorHandler((error, _request, reply) => {
+    if (error instanceof ZodError) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Validation error',
+        code: 'VALIDATION_ERROR',
+        details: error.errors,
+      });
+    }
+
+    fastify.log.error(error);
+
+    // A response that doesn't match its schema is a bug, not something the client can fix
+    if (error instanceof ResponseValidationError) {
+      return reply.status(500).send({
+        success: false,
+        error: 'Internal Server Error',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+
+    const statusCode = error.statusCode || 500;
+
+    return reply.status(statusCode).send({
+      success: false,
+      error: error.message || 'Internal Server Error',
+      code: error.code ?? (statusCode >= 500 ? 'INTERNAL_ERROR' : undefined),
+    });
+  });
+
+  // Register routes
+  await fastify.register(uploadRoutes, { prefix: '/api' });
+  await fastify.register(artifactRoutes, { prefix: '/api' });
+  await fastify.register(adminRoutes, { prefix: '/api/admin' });
+
+  if (config.METRICS_ENABLED) {
+    await fastify.register(metricsRoutes);
+  }
+
+  return fastify;
+}
@@ -0,0 +1,54 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { FastifyRequest } from 'fastify';
+import type { Authenticator, Principal } from './authenticator.js';
+
+/**
+ * Static API keys, sent as `X-API-Key: <key>` or `Authorization: ApiKey <key>`.
+ *
+ * Keys are configured as a comma-separated list of `key:principal` pairs.
+ */
+export class ApiKeyAuthenticator implements Authenticator {
+  private keys: { digest: Buffer; principalId: string }[];
+
+  constructor(keyList: string) {
+    this.keys = keyList
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.lastIndexOf(':');
+        if (separator <= 0 || separator === entry.length - 1) {
+          throw new Error('AUTH_API_KEYS entries must have the form key:principal');
+        }
+        return {
+          digest: digest(entry.slice(0, separator)),
+          principalId: entry.slice(separator + 1),
+        };
+      });
+  }
+
+  async authenticate(request: FastifyRequest): Promise<Principal | null> {
+    const key = extractKey(request);
+    if (!key) return null;
+
+    // Compare fixed-length digests so the comparison time doesn't leak the key
+    const presented = digest(key);
+    const match = this.keys.find((k) => timingSafeEqual(k.digest, presented));
+
+    return match ? { id: match.principalId, method: 'api-key' } : null;
+  }
+}
+
+function extractKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('ApiKey ')) return authorization.slice('ApiKey '.length).trim();
+
+  return undefined;
+}
+
+function digest(key: string): Buffer {
+  return createHash('sha256').update(key).digest();
+}
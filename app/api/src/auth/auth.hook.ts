@@ -0,0 +1,118 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config/index.js';
+import {
+  ANONYMOUS,
+  AuthenticationError,
+  createAuthenticators,
+  type Principal,
+} from './authenticator.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    principal: Principal;
+  }
+
+  interface FastifyContextConfig {
+    // Skip authentication for this route
+    public?: boolean;
+    // Also accept credentials as `access_token` / `api_key` query parameters,
+    // for clients such as EventSource that can't set headers
+    queryToken?: boolean;
+  }
+}
+
+/**
+ * Create an onRequest hook that identifies the caller and sets `request.principal`.
+ *
+ * When AUTH_ENABLED is false every request runs as the anonymous principal.
+ */
+export function createAuthHook() {
+  const authenticators = createAuthenticators();
+
+  if (config.AUTH_ENABLED && authenticators.length === 0) {
+    throw new Error('AUTH_ENABLED requires AUTH_API_KEYS or AUTH_JWT_SECRET');
+  }
+
+  return async function authenticate(request: FastifyRequest, reply: FastifyReply) {
+    if (!config.AUTH_ENABLED || request.routeOptions.config.public) {
+      request.principal = ANONYMOUS;
+      return;
+    }
+
+    if (request.routeOptions.config.queryToken) {
+      useQueryCredentials(request);
+    }
+
+    try {
+      for (const authenticator of authenticators) {
+        const principal = await authenticator.authenticate(request);
+        if (principal) {
+          request.principal = principal;
+          return;
+        }
+      }
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        return reply.status(401).send({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      throw error;
+    }
+
+    return reply.status(401).send({
+      success: false,
+      error: 'Authentication required',
+      code: 'UNAUTHENTICATED',
+    });
+  };
+}
+
+/**
+ * Copy query string credentials into the headers the authenticators read,
+ * unless the request already carries credentials in its headers
+ */
+function useQueryCredentials(request: FastifyRequest): void {
+  if (request.headers.authorization || request.headers['x-api-key']) {
+    return;
+  }
+
+  const query = request.query as Record<string, unknown>;
+
+  if (typeof query.access_token === 'string' && query.access_token) {
+    request.headers.authorization = `Bearer ${query.access_token}`;
+  } else if (typeof query.api_key === 'string' && query.api_key) {
+    request.headers['x-api-key'] = query.api_key;
+  }
+}
+
+const admins = new Set(
+  config.ADMIN_PRINCIPALS.split(',')
+    .map((principal) => principal.trim())
+    .filter(Boolean)
+);
+
+/**
+ * Whether a principal is listed in ADMIN_PRINCIPALS
+ */
+export function isAdmin(principal: Principal): boolean {
+  return admins.has(principal.id);
+}
+
+/**
+ * Create a preHandler hook that only lets admin principals through.
+ * Must run after the authentication hook.
+ */
+export function createAdminHook() {
+  return async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+    if (!isAdmin(request.principal)) {
+      return reply.status(403).send({
+        success: false,
+        error: 'Admin access required',
+        code: 'FORBIDDEN',
+      });
+    }
+  };
+}
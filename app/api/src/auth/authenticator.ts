@@ -0,0 +1,58 @@
+import type { FastifyRequest } from 'fastify';
+import { config } from '../config/index.js';
+import { ApiKeyAuthenticator } from './api-key.authenticator.js';
+import { JwtAuthenticator } from './jwt.authenticator.js';
+
+/**
+ * The caller a request is made on behalf of
+ */
+export interface Principal {
+  id: string;
+  method: 'api-key' | 'jwt' | 'anonymous';
+}
+
+/**
+ * A way of identifying the caller of a request.
+ *
+ * Returns null when the request carries no credentials this authenticator
+ * understands, and throws when it carries credentials that are invalid.
+ */
+export interface Authenticator {
+  authenticate(request: FastifyRequest): Promise<Principal | null>;
+}
+
+export const ANONYMOUS: Principal = { id: 'anonymous', method: 'anonymous' };
+
+/**
+ * Credentials were presented but could not be verified
+ */
+export class AuthenticationError extends Error {
+  readonly code = 'UNAUTHENTICATED';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Create the authenticators enabled by configuration
+ */
+export function createAuthenticators(): Authenticator[] {
+  const authenticators: Authenticator[] = [];
+
+  if (config.AUTH_API_KEYS) {
+    authenticators.push(new ApiKeyAuthenticator(config.AUTH_API_KEYS));
+  }
+
+  if (config.AUTH_JWT_SECRET) {
+    authenticators.push(
+      new JwtAuthenticator(config.AUTH_JWT_SECRET, {
+        issuer: config.AUTH_JWT_ISSUER,
+        audience: config.AUTH_JWT_AUDIENCE,
+      })
+    );
+  }
+
+  return authenticators;
+}
@@ -0,0 +1,81 @@
+import { createHmac } from 'crypto';
+import type { FastifyRequest } from 'fastify';
+import { describe, expect, it } from 'vitest';
+import { AuthenticationError } from './authenticator.js';
+import { JwtAuthenticator } from './jwt.authenticator.js';
+
+const SECRET = 'test-secret';
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(header: unknown, payload: unknown, secret = SECRET): string {
+  const signed = `${encode(header)}.${encode(payload)}`;
+  return `${signed}.${createHmac('sha256', secret).update(signed).digest('base64url')}`;
+}
+
+function request(authorization?: string): FastifyRequest {
+  return { headers: { authorization } } as FastifyRequest;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('JwtAuthenticator', () => {
+  const authenticator = new JwtAuthenticator(SECRET, { issuer: 'ci', audience: 'uploads' });
+  const claims = () => ({ sub: 'ci-bot', iss: 'ci', aud: 'uploads', exp: now() + 60 });
+  const authenticate = (token: string) => authenticator.authenticate(request(`Bearer ${token}`));
+
+  it('returns the subject of a valid token', async () => {
+    await expect(authenticate(sign({ alg: 'HS256' }, claims()))).resolves.toEqual({ id: 'ci-bot', method: 'jwt' });
+  });
+
+  it('ignores requests without a bearer token', async () => {
+    await expect(authenticator.authenticate(request())).resolves.toBeNull();
+    await expect(authenticator.authenticate(request('Basic abc'))).resolves.toBeNull();
+  });
+
+  it('rejects a bad signature', async () => {
+    await expect(authenticate(sign({ alg: 'HS256' }, claims(), 'other'))).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects unsupported algorithms', async () => {
+    await expect(authenticate(sign({ alg: 'none' }, claims()))).rejects.toThrow('Unsupported token algorithm');
+  });
+
+  it('rejects headers and payloads that are not objects', async () => {
+    await expect(authenticate(`${encode(null)}.${encode(claims())}.sig`)).rejects.toThrow(AuthenticationError);
+    await expect(authenticate(sign({ alg: 'HS256' }, null))).rejects.toThrow('Malformed bearer token');
+    await expect(authenticate(sign({ alg: 'HS256' }, ['ci-bot']))).rejects.toThrow('Malformed bearer token');
+    await expect(authenticate('not-base64.json.sig')).rejects.toThrow('Malformed bearer token');
+  });
+
+  it('requires an unexpired exp', async () => {
+    const { exp: _exp, ...unbounded } = claims();
+
+    await expect(authenticate(sign({ alg: 'HS256' }, unbounded))).rejects.toThrow('Token has no expiry');
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), exp: now() - 120 }))).rejects.toThrow(
+      'Token expired'
+    );
+  });
+
+  it('tolerates clock skew', async () => {
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), exp: now() - 10 }))).resolves.toBeTruthy();
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), nbf: now() + 10 }))).resolves.toBeTruthy();
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), nbf: now() + 120 }))).rejects.toThrow(
+      'Token not yet valid'
+    );
+  });
+
+  it('checks the issuer and audience', async () => {
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), iss: 'other' }))).rejects.toThrow('issuer');
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), aud: ['a', 'uploads'] }))).resolves.toBeTruthy();
+    await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), aud: 'other' }))).rejects.toThrow('audience');
+  });
+
+  it('requires a non-empty string subject', async () => {
+    for (const sub of ['', 42, { id: 'ci-bot' }, undefined]) {
+      await expect(authenticate(sign({ alg: 'HS256' }, { ...claims(), sub }))).rejects.toThrow('Token has no subject');
+    }
+  });
+});
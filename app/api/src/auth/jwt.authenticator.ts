@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { FastifyRequest } from 'fastify';
+import { AuthenticationError, type Authenticator, type Principal } from './authenticator.js';
+
+const ALGORITHMS: Record<string, string> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512',
+};
+
+// Tolerated clock drift between the token issuer and this server
+const CLOCK_SKEW_SECONDS = 30;
+
+interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+}
+
+/**
+ * HMAC-signed JWT bearer tokens (`Authorization: Bearer <token>`).
+ *
+ * The principal is the token's `sub` claim. Tokens must carry `exp`, so none
+ * is valid forever.
+ */
+export class JwtAuthenticator implements Authenticator {
+  constructor(
+    private secret: string,
+    private options: { issuer?: string; audience?: string } = {}
+  ) {}
+
+  async authenticate(request: FastifyRequest): Promise<Principal | null> {
+    const authorization = request.headers.authorization;
+    if (!authorization?.startsWith('Bearer ')) return null;
+
+    const subject = this.verify(authorization.slice('Bearer '.length).trim());
+    return { id: subject, method: 'jwt' };
+  }
+
+  // Returns the token's subject
+  private verify(token: string): string {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new AuthenticationError('Malformed bearer token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = decodeSegment<{ alg?: string }>(encodedHeader);
+    const hash = header.alg && ALGORITHMS[header.alg];
+
+    if (!hash) {
+      throw new AuthenticationError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const expected = createHmac(hash, this.secret)
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .digest();
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new AuthenticationError('Invalid token signature');
+    }
+
+    const claims = decodeSegment<JwtClaims>(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp !== 'number') {
+      throw new AuthenticationError('Token has no expiry');
+    }
+
+    if (now > claims.exp + CLOCK_SKEW_SECONDS) {
+      throw new AuthenticationError('Token expired');
+    }
+
+    if (typeof claims.nbf === 'number' && now < claims.nbf - CLOCK_SKEW_SECONDS) {
+      throw new AuthenticationError('Token not yet valid');
+    }
+
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      throw new AuthenticationError('Invalid token issuer');
+    }
+
+    if (this.options.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw new AuthenticationError('Invalid token audience');
+      }
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthenticationError('Token has no subject');
+    }
+
+    return claims.sub;
+  }
+}
+
+// The header and payload must both be JSON objects
+function decodeSegment<T>(segment: string): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthenticationError('Malformed bearer token');
+  }
+
+  if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+    throw new AuthenticationError('Malformed bearer token');
+  }
+  return decoded as T;
+}
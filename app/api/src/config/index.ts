@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { keyTemplatePrefix } from '../utils/object-key.js';
 
 const envSchema = z.object({
   // Server
@@ -10,16 +11,220 @@ const envSchema = z.object({
   AWS_REGION: z.string().default('us-east-1'),
   AWS_ACCESS_KEY_ID: z.string().optional(),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
-  S3_BUCKET_NAME: z.string(),
+  S3_BUCKET_NAME: z.string().optional(),
+
+  // Storage backend: S3, or the local filesystem for offline development
+  STORAGE_DRIVER: z.enum(['s3', 'fs']).default('s3'),
+  STORAGE_FS_ROOT: z.string().default('./data/storage'),
 
   // Upload settings
   MAX_FILE_SIZE: z.string().default('10737418240').transform(Number), // 10GB default
   CHUNK_SIZE: z.string().default('5242880').transform(Number), // 5MB default
   MAX_PARALLEL_CHUNKS: z.string().default('3').transform(Number),
-  UPLOAD_EXPIRATION: z.string().default('3600').transform(Number), // 1 hour
+  UPLOAD_EXPIRATION: z.string().default('3600').transform(Number), // 1 hour without a part or heartbeat
+  UPLOAD_MAX_LIFETIME: z.string().default('86400').transform(Number), // 24 hours, however active
+  DEFAULT_UPLOAD_MODE: z.enum(['proxy', 'direct']).default('proxy'),
+  PRESIGNED_URL_EXPIRATION: z.string().default('900').transform(Number), // 15 minutes
+
+  // Server-side encryption of stored objects. Modes and KMS keys are
+  // comma-separated allowlists; uploads that don't ask for a mode get the default
+  ENCRYPTION_MODES_ALLOWED: z.string().default('none,SSE-S3,SSE-KMS,SSE-C'),
+  ENCRYPTION_KMS_KEYS_ALLOWED: z.string().default(''), // Empty allows any key, including the AWS managed one
+  ENCRYPTION_DEFAULT_MODE: z.enum(['none', 'SSE-S3', 'SSE-KMS']).default('none'),
+  ENCRYPTION_DEFAULT_KMS_KEY_ID: z.string().optional(), // Key for the SSE-KMS default mode
+
+  // Object settings. Storage classes are a comma-separated allowlist; default
+  // tags are key=value pairs, overridden by tags of the same key in a request
+  OBJECT_STORAGE_CLASSES_ALLOWED: z.string().default('STANDARD,INTELLIGENT_TIERING,GLACIER_IR'),
+  OBJECT_DEFAULT_STORAGE_CLASS: z.enum(['STANDARD', 'INTELLIGENT_TIERING', 'GLACIER_IR']).default('STANDARD'),
+  OBJECT_DEFAULT_TAGS: z.string().default(''), // key1=value1,key2=value2
+  OBJECT_DEFAULT_CACHE_CONTROL: z.string().optional(),
+  OBJECT_MAX_TAGS: z.string().default('10').transform(Number), // Per request; S3 allows 10 per object
+
+  // Object keys. The template's {variables} are filled in per upload; when an
+  // object already exists at the key it is overwritten, rejected or suffixed
+  KEY_TEMPLATE: z.string().default('uploads/{uploadId}/{fileName}'),
+  KEY_COLLISION_POLICY: z.enum(['overwrite', 'reject', 'suffix']).default('suffix'),
+
+  // File type policy, enforced when an upload is initiated. Lists are
+  // comma-separated; MIME types may end in /* to match a whole family
+  FILE_TYPES_ALLOWED: z.string().default(''), // Empty allows every type that isn't denied
+  FILE_TYPES_DENIED: z.string().default(''),
+  FILE_EXTENSIONS_ALLOWED: z.string().default(''), // Empty allows every extension that isn't denied
+  FILE_EXTENSIONS_DENIED: z.string().default(''),
+  FILE_TYPE_MAX_SIZES: z.string().default(''), // type:bytes,... e.g. image/*:52428800
+  FILE_TYPE_SNIFFING: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+
+  // Malware scanning of assembled uploads (none | clamd | stub)
+  SCANNER: z.enum(['none', 'clamd', 'stub']).default('none'),
+  CLAMD_SOCKET: z.string().optional(), // Unix socket; takes precedence over host and port
+  CLAMD_HOST: z.string().default('127.0.0.1'),
+  CLAMD_PORT: z.string().default('3310').transform(Number),
+  CLAMD_TIMEOUT: z.string().default('60000').transform(Number), // 1 minute
+  QUARANTINE_KEY_PREFIX: z.string().default('quarantine/'),
+
+  // Session persistence
+  SESSION_STORE: z.enum(['memory', 'file']).default('memory'),
+  SESSION_STORE_PATH: z.string().default('./data/sessions'),
+
+  // Record of completed uploads, used for listing
+  ARTIFACT_STORE: z.enum(['memory', 'file']).default('memory'),
+  ARTIFACT_STORE_PATH: z.string().default('./data/artifacts'),
+
+  // Deleted uploads are kept this long before their objects are removed
+  DELETION_RETENTION: z.string().default('604800').transform(Number), // 7 days
+
+  // Audit log of deletions
+  AUDIT_LOG: z.enum(['memory', 'file']).default('memory'),
+  AUDIT_LOG_PATH: z.string().default('./data/audit.log'),
+
+  // Downloads: redirect to a presigned URL, or stream through the API
+  DOWNLOAD_MODE: z.enum(['redirect', 'proxy']).default('redirect'),
+  DOWNLOAD_URL_EXPIRATION: z.string().default('300').transform(Number), // 5 minutes
+
+  // Content hash index for deduplicating re-uploads
+  DEDUP_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  CONTENT_INDEX_STORE: z.enum(['memory', 'file']).default('memory'),
+  CONTENT_INDEX_PATH: z.string().default('./data/content-index'),
+
+  // Per-principal quotas (0 = unlimited)
+  QUOTA_MAX_CONCURRENT_SESSIONS: z.string().default('0').transform(Number),
+  QUOTA_MAX_BYTES_IN_FLIGHT: z.string().default('0').transform(Number),
+  QUOTA_MAX_BYTES_PER_DAY: z.string().default('0').transform(Number),
+
+  // Request rate limits per principal, per RATE_LIMIT_WINDOW
+  RATE_LIMIT_WINDOW: z.string().default('60000').transform(Number), // 1 minute
+  RATE_LIMIT_INITIATE_MAX: z.string().default('30').transform(Number),
+  RATE_LIMIT_CHUNK_MAX: z.string().default('600').transform(Number),
+
+  // Sweeper for orphaned multipart uploads
+  SWEEPER_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  SWEEPER_INTERVAL: z.string().default('3600').transform(Number), // 1 hour
+  SWEEPER_MIN_AGE: z.string().default('86400').transform(Number), // 24 hours
+  SWEEPER_DRY_RUN: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+
+  // Webhooks for upload lifecycle events
+  WEBHOOK_URLS: z.string().default(''), // url1,url2 notified of every upload
+  WEBHOOK_SECRET: z.string().optional(), // HMAC-SHA256 signing secret
+  WEBHOOK_ALLOWED_HOSTS: z.string().default(''), // Restricts per-upload webhook hosts when set
+  WEBHOOK_TIMEOUT: z.string().default('10000').transform(Number), // 10 seconds
+  WEBHOOK_MAX_ATTEMPTS: z.string().default('8').transform(Number),
+  WEBHOOK_RETRY_BASE_DELAY: z.string().default('10').transform(Number), // Seconds, doubled per attempt
+  WEBHOOK_CONCURRENCY: z.string().default('4').transform(Number), // Deliveries attempted at once
+  WEBHOOK_RETENTION: z.string().default('604800').transform(Number), // 7 days; finished deliveries are then removed
+  WEBHOOK_STORE: z.enum(['memory', 'file']).default('memory'),
+  WEBHOOK_STORE_PATH: z.string().default('./data/webhooks'),
+
+  // Prometheus metrics at /metrics
+  METRICS_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+
+  // Authentication
+  AUTH_ENABLED: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+  AUTH_API_KEYS: z.string().optional(), // key1:principal1,key2:principal2
+  AUTH_JWT_SECRET: z.string().optional(), // HMAC secret for HS256/HS384/HS512 bearer tokens
+  AUTH_JWT_ISSUER: z.string().optional(),
+  AUTH_JWT_AUDIENCE: z.string().optional(),
+  ADMIN_PRINCIPALS: z.string().default(''), // principal1,principal2
 
   // CORS
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
+}).superRefine((env, ctx) => {
+  if (env.STORAGE_DRIVER === 's3' && !env.S3_BUCKET_NAME) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['S3_BUCKET_NAME'],
+      message: 'Required when STORAGE_DRIVER is s3',
+    });
+  }
+
+  if (env.UPLOAD_MAX_LIFETIME < env.UPLOAD_EXPIRATION) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['UPLOAD_MAX_LIFETIME'],
+      message: 'May not be shorter than UPLOAD_EXPIRATION',
+    });
+  }
+
+  // Uploads without a mode of their own get the default, so it must be allowed
+  const modesAllowed = env.ENCRYPTION_MODES_ALLOWED.split(',').map((mode) => mode.trim().toLowerCase());
+  if (!modesAllowed.includes(env.ENCRYPTION_DEFAULT_MODE.toLowerCase())) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ENCRYPTION_DEFAULT_MODE'],
+      message: 'Must be listed in ENCRYPTION_MODES_ALLOWED',
+    });
+  }
+
+  if (env.ENCRYPTION_DEFAULT_MODE === 'SSE-KMS' && !env.ENCRYPTION_DEFAULT_KMS_KEY_ID) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['ENCRYPTION_DEFAULT_KMS_KEY_ID'],
+      message: 'Required when ENCRYPTION_DEFAULT_MODE is SSE-KMS',
+    });
+  }
+
+  const storageClassesAllowed = env.OBJECT_STORAGE_CLASSES_ALLOWED.split(',').map((name) => name.trim());
+  if (!storageClassesAllowed.includes(env.OBJECT_DEFAULT_STORAGE_CLASS)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['OBJECT_DEFAULT_STORAGE_CLASS'],
+      message: 'Must be listed in OBJECT_STORAGE_CLASSES_ALLOWED',
+    });
+  }
+
+  // Tags of a request must fit next to the default ones
+  if (env.OBJECT_DEFAULT_TAGS.split(',').filter(Boolean).length + env.OBJECT_MAX_TAGS > 10) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['OBJECT_MAX_TAGS'],
+      message: 'Default tags plus OBJECT_MAX_TAGS may not exceed the S3 limit of 10 tags',
+    });
+  }
+
+  // Keys must be told apart by their file name or something unique per upload
+  if (!/\{\s*(uploadId|fileName)\s*\}/.test(env.KEY_TEMPLATE)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['KEY_TEMPLATE'],
+      message: 'Must contain {uploadId} or {fileName}',
+    });
+  }
+
+  // Records of an overwritten object would point at the upload that replaced
+  // it, so only keys that can't be reused may skip the collision check
+  if (env.KEY_COLLISION_POLICY === 'overwrite' && !/\{\s*uploadId\s*\}/.test(env.KEY_TEMPLATE)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['KEY_COLLISION_POLICY'],
+      message: 'overwrite requires {uploadId} in KEY_TEMPLATE',
+    });
+  }
+
+  // The sweeper aborts untracked multipart uploads under this prefix, which
+  // must not be the whole bucket
+  if (!keyTemplatePrefix(env.KEY_TEMPLATE)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['KEY_TEMPLATE'],
+      message: 'Must start with a static directory, e.g. uploads/',
+    });
+  }
+
+  if (!(env.WEBHOOK_CONCURRENCY >= 1)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['WEBHOOK_CONCURRENCY'],
+      message: 'Must be at least 1',
+    });
+  }
+
+  if (env.WEBHOOK_URLS && !env.WEBHOOK_SECRET) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['WEBHOOK_SECRET'],
+      message: 'Required when WEBHOOK_URLS is set',
+    });
+  }
 });
 
 export type Config = z.infer<typeof envSchema>;
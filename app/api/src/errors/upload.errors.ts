@@ -0,0 +1,336 @@
+/**
+ * An error the API reports to clients with a specific HTTP status and a
+ * stable, machine-readable `code`. Anything else is reported as a 500.
+ */
+export abstract class UploadError extends Error {
+  abstract readonly code: string;
+  abstract readonly statusCode: number;
+}
+
+/**
+ * A chunk's bytes did not match the checksum the client computed for them.
+ * The client should re-send the chunk.
+ */
+export class ChecksumMismatchError extends UploadError {
+  readonly code = 'CHECKSUM_MISMATCH';
+  readonly statusCode = 422;
+
+  constructor(partNumber: number) {
+    super(`Checksum mismatch for part ${partNumber}`);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/**
+ * The digest composed from the received parts did not match the digest the
+ * client declared when initiating the upload.
+ */
+export class IntegrityMismatchError extends UploadError {
+  readonly code = 'INTEGRITY_MISMATCH';
+  readonly statusCode = 422;
+
+  constructor(expected: string, actual: string) {
+    super(`Composite digest mismatch: declared ${expected}, received parts compose to ${actual}`);
+    this.name = 'IntegrityMismatchError';
+  }
+}
+
+/**
+ * The caller is authenticated but does not own the upload session.
+ */
+export class ForbiddenError extends UploadError {
+  readonly code = 'FORBIDDEN';
+  readonly statusCode = 403;
+
+  constructor(message = 'Upload session belongs to another principal') {
+    super(message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * The requested upload or its stored object does not exist.
+ */
+export class NotFoundError extends UploadError {
+  readonly code = 'NOT_FOUND';
+  readonly statusCode = 404;
+
+  constructor(message = 'Upload not found') {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The request is well-formed but asks for something this server can't do,
+ * e.g. a chunk size below the storage minimum.
+ */
+export class ValidationError extends UploadError {
+  readonly code = 'VALIDATION_ERROR';
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * A pagination cursor is malformed or was issued for a different sort order.
+ */
+export class InvalidCursorError extends UploadError {
+  readonly code = 'INVALID_CURSOR';
+  readonly statusCode = 400;
+
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Starting the upload would take the principal over one of its quotas.
+ */
+export class QuotaExceededError extends UploadError {
+  readonly code = 'QUOTA_EXCEEDED';
+  readonly statusCode = 429;
+
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * The upload session does not exist, or no longer exists.
+ */
+export class SessionNotFoundError extends UploadError {
+  readonly code = 'SESSION_NOT_FOUND';
+  readonly statusCode = 404;
+
+  constructor() {
+    super('Upload session not found');
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * The upload session expired before the upload was completed. The client
+ * must start a new upload.
+ */
+export class SessionExpiredError extends UploadError {
+  readonly code = 'SESSION_EXPIRED';
+  readonly statusCode = 410;
+
+  constructor() {
+    super('Upload session expired');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * The upload was already completed, so its parts can no longer change.
+ */
+export class AlreadyCompletedError extends UploadError {
+  readonly code = 'UPLOAD_COMPLETED';
+  readonly statusCode = 409;
+
+  constructor(message = 'Upload already completed') {
+    super(message);
+    this.name = 'AlreadyCompletedError';
+  }
+}
+
+/**
+ * The upload was cancelled and its parts discarded.
+ */
+export class UploadCancelledError extends UploadError {
+  readonly code = 'UPLOAD_CANCELLED';
+  readonly statusCode = 409;
+
+  constructor(message = 'Upload was cancelled') {
+    super(message);
+    this.name = 'UploadCancelledError';
+  }
+}
+
+/**
+ * The request uses the other upload mode than the session was started with.
+ */
+export class UploadModeMismatchError extends UploadError {
+  readonly code = 'UPLOAD_MODE_MISMATCH';
+  readonly statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadModeMismatchError';
+  }
+}
+
+/**
+ * A chunk index, part or ETag doesn't fit the upload session, or parts are
+ * missing at completion.
+ */
+export class InvalidChunkError extends UploadError {
+  readonly code = 'INVALID_CHUNK';
+  readonly statusCode = 422;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidChunkError';
+  }
+}
+
+/**
+ * The storage backend could not be reached or is failing. The same request
+ * may succeed later.
+ */
+export class StorageUnavailableError extends UploadError {
+  readonly code = 'STORAGE_UNAVAILABLE';
+  readonly statusCode = 503;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+/**
+ * The upload session failed, e.g. its content was rejected, and accepts no
+ * more parts.
+ */
+export class UploadFailedError extends UploadError {
+  readonly code = 'UPLOAD_FAILED';
+  readonly statusCode = 409;
+
+  constructor(message = 'Upload failed') {
+    super(message);
+    this.name = 'UploadFailedError';
+  }
+}
+
+/**
+ * The file's type or extension is not allowed by the file type policy.
+ */
+export class FileTypeNotAllowedError extends UploadError {
+  readonly code = 'FILE_TYPE_NOT_ALLOWED';
+  readonly statusCode = 415;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileTypeNotAllowedError';
+  }
+}
+
+/**
+ * The file is larger than the policy allows for its type.
+ */
+export class FileTooLargeError extends UploadError {
+  readonly code = 'FILE_TOO_LARGE';
+  readonly statusCode = 413;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+/**
+ * The file's leading bytes show it is not of the type it was declared as.
+ */
+export class ContentTypeMismatchError extends UploadError {
+  readonly code = 'CONTENT_TYPE_MISMATCH';
+  readonly statusCode = 422;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentTypeMismatchError';
+  }
+}
+
+/**
+ * The malware scanner found the assembled file infected. The file was moved
+ * to quarantine.
+ */
+export class MalwareDetectedError extends UploadError {
+  readonly code = 'MALWARE_DETECTED';
+  readonly statusCode = 422;
+
+  constructor(signature?: string) {
+    super(signature ? `Malware detected: ${signature}` : 'Malware detected');
+    this.name = 'MalwareDetectedError';
+  }
+}
+
+/**
+ * The malware scanner could not be reached or could not scan the file.
+ * Completing the upload again repeats the scan.
+ */
+export class ScanFailedError extends UploadError {
+  readonly code = 'SCAN_FAILED';
+  readonly statusCode = 503;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScanFailedError';
+  }
+}
+
+/**
+ * The requested server-side encryption isn't allowed by the server, or isn't
+ * available for this upload.
+ */
+export class EncryptionNotAllowedError extends UploadError {
+  readonly code = 'ENCRYPTION_NOT_ALLOWED';
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionNotAllowedError';
+  }
+}
+
+/**
+ * The object key template couldn't be filled in for this upload, e.g. a
+ * metadata field it refers to is missing.
+ */
+export class InvalidObjectKeyError extends UploadError {
+  readonly code = 'INVALID_OBJECT_KEY';
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidObjectKeyError';
+  }
+}
+
+/**
+ * An object already exists at the upload's key and the collision policy
+ * doesn't allow replacing it.
+ */
+export class ObjectExistsError extends UploadError {
+  readonly code = 'OBJECT_EXISTS';
+  readonly statusCode = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ObjectExistsError';
+  }
+}
+
+/**
+ * A per-upload webhook URL points at a host that isn't allowed, or that
+ * resolves to a loopback, private or link-local address.
+ */
+export class WebhookNotAllowedError extends UploadError {
+  readonly code = 'WEBHOOK_NOT_ALLOWED';
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookNotAllowedError';
+  }
+}
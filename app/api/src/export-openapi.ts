@@ -0,0 +1,15 @@
+import 'dotenv/config';
+import { writeFile } from 'fs/promises';
+import { buildApp } from './app.js';
+
+// Write the OpenAPI document to the given path, for generating clients
+const output = process.argv[2] ?? 'openapi.json';
+
+const fastify = await buildApp();
+await fastify.ready();
+
+await writeFile(output, `${JSON.stringify(fastify.swagger(), null, 2)}\n`);
+console.log(`OpenAPI document written to ${output}`);
+
+// Services keep timers running, so don't wait for the event loop to drain
+process.exit(0);
@@ -0,0 +1,141 @@
+import type { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { artifactService, sweeperService, webhookService } from '../services/index.js';
+import {
+  auditQuerySchema,
+  sweepQuerySchema,
+  webhookDeliveriesQuerySchema,
+  webhookDeliveryParamsSchema,
+  sweepResponseSchema,
+  auditResponseSchema,
+} from '../schemas/admin.schema.js';
+import { webhookDeliveriesResponseSchema, webhookDeliverySchema } from '../schemas/upload.schema.js';
+import { responses } from '../schemas/common.schema.js';
+import { UploadError } from '../errors/upload.errors.js';
+import { sendError } from '../utils/http.js';
+import { createAdminHook, createAuthHook } from '../auth/auth.hook.js';
+
+export const adminRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  // Every admin route requires an authenticated principal listed in ADMIN_PRINCIPALS
+  fastify.decorateRequest('principal', null);
+  fastify.addHook('onRequest', createAuthHook());
+  fastify.addHook('preHandler', createAdminHook());
+
+  // Abort orphaned multipart uploads
+  fastify.post('/sweep', {
+    schema: {
+      tags: ['admin'],
+      summary: 'Abort orphaned multipart uploads',
+      querystring: sweepQuerySchema,
+      response: responses(sweepResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const result = await sweeperService.sweep(request.query);
+
+      fastify.log.info({
+        principal: request.principal.id,
+        dryRun: result.dryRun,
+        aborted: result.aborted.length,
+        failed: result.failed.length,
+      }, 'Sweep triggered');
+
+      return reply.status(200).send({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sweep multipart uploads',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Deletions, restores and purges of uploads
+  fastify.get('/audit', {
+    schema: {
+      tags: ['admin'],
+      summary: 'Deletions, restores and purges of uploads',
+      querystring: auditQuerySchema,
+      response: responses(auditResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.query;
+
+      const events = await artifactService.getAuditEvents(uploadId);
+
+      return reply.status(200).send({
+        success: true,
+        data: { events },
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to read audit log',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Webhook deliveries across all uploads
+  fastify.get('/webhooks/deliveries', {
+    schema: {
+      tags: ['admin'],
+      summary: 'Webhook deliveries across all uploads',
+      querystring: webhookDeliveriesQuerySchema,
+      response: responses(webhookDeliveriesResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const deliveries = await webhookService.listDeliveries(request.query);
+
+      return reply.status(200).send({
+        success: true,
+        data: { deliveries },
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list webhook deliveries',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Attempt a webhook delivery again, e.g. after it failed permanently
+  fastify.post('/webhooks/deliveries/:deliveryId/retry', {
+    schema: {
+      tags: ['admin'],
+      summary: 'Attempt a webhook delivery again',
+      params: webhookDeliveryParamsSchema,
+      response: responses(webhookDeliverySchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { deliveryId } = request.params;
+
+      const delivery = await webhookService.redeliver(deliveryId);
+
+      return reply.status(200).send({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry webhook delivery',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+};
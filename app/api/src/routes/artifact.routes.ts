@@ -0,0 +1,252 @@
+import type { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import { artifactService } from '../services/index.js';
+import {
+  uploadIdParamsSchema,
+  downloadUploadQuerySchema,
+  listUploadsQuerySchema,
+  listUploadsResponseSchema,
+  deleteUploadResponseSchema,
+  type ArtifactResponse,
+} from '../schemas/upload.schema.js';
+import { responses } from '../schemas/common.schema.js';
+import { ForbiddenError, UploadError } from '../errors/upload.errors.js';
+import { config } from '../config/index.js';
+import { createAuthHook, isAdmin } from '../auth/auth.hook.js';
+import { contentDisposition, etagMatches, ifRangeMatches, parseRange, sendError } from '../utils/http.js';
+import type { Principal } from '../auth/authenticator.js';
+import type { Artifact } from '../types/upload.js';
+
+export const artifactRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  // Identify the caller of every route
+  fastify.decorateRequest('principal', null);
+  fastify.addHook('onRequest', createAuthHook());
+
+  // List completed uploads
+  fastify.get('/uploads', {
+    schema: {
+      tags: ['artifacts'],
+      summary: 'List completed uploads',
+      description: 'Filter on metadata with `metadata.<key>=<value>` query parameters',
+      querystring: listUploadsQuerySchema,
+      response: responses(listUploadsResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploader, ...query } = request.query;
+
+      // Principals see their own uploads; admins may list anyone's
+      if (uploader && uploader !== request.principal.id && !isAdmin(request.principal)) {
+        throw new ForbiddenError('Only admins can list uploads of other principals');
+      }
+
+      const page = await artifactService.listArtifacts({
+        ...query,
+        owner: uploader ?? (isAdmin(request.principal) ? undefined : request.principal.id),
+      });
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          items: page.items.map(toArtifactResponse),
+          nextCursor: page.nextCursor,
+        },
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list uploads',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Download a completed upload
+  fastify.get('/uploads/:uploadId/download', {
+    schema: {
+      tags: ['artifacts'],
+      summary: 'Download a completed upload',
+      description: 'Redirects to a presigned URL, or streams the object with Range and conditional request support',
+      params: uploadIdParamsSchema,
+      querystring: downloadUploadQuerySchema,
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+      const { mode = config.DOWNLOAD_MODE } = request.query;
+
+      const artifact = await artifactService.getArtifact(uploadId);
+      authorizeArtifact(request.principal, artifact);
+
+      // Presigned URLs carry their own Range support and expire quickly
+      const downloadUrl = mode === 'redirect' ? await artifactService.getDownloadUrl(artifact) : null;
+
+      if (downloadUrl) {
+        return reply.header('Cache-Control', 'no-store').redirect(302, downloadUrl);
+      }
+
+      const object = await artifactService.statObject(artifact);
+
+      reply
+        .header('Accept-Ranges', 'bytes')
+        .header('ETag', object.etag)
+        .header('Last-Modified', new Date(object.lastModified).toUTCString())
+        .header('Cache-Control', 'private, no-cache');
+
+      if (etagMatches(request.headers['if-none-match'], object.etag)) {
+        return reply.status(304).send();
+      }
+
+      const range = ifRangeMatches(request.headers['if-range'] as string | undefined, object.etag, object.lastModified)
+        ? parseRange(request.headers.range, object.size)
+        : null;
+
+      if (range === 'unsatisfiable') {
+        return reply
+          .status(416)
+          .header('Content-Range', `bytes */${object.size}`)
+          .send({
+            success: false,
+            error: 'Requested range not satisfiable',
+            code: 'RANGE_NOT_SATISFIABLE',
+          });
+      }
+
+      const body = await artifactService.openObject(artifact, range ?? undefined);
+
+      reply
+        .header('Content-Type', artifact.fileType)
+        .header('Content-Disposition', contentDisposition(artifact.fileName));
+
+      if (range) {
+        return reply
+          .status(206)
+          .header('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`)
+          .header('Content-Length', range.end - range.start + 1)
+          .send(body);
+      }
+
+      return reply.status(200).header('Content-Length', object.size).send(body);
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to download upload',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Soft-delete a completed upload
+  fastify.delete('/uploads/:uploadId', {
+    schema: {
+      tags: ['artifacts'],
+      summary: 'Soft-delete a completed upload',
+      params: uploadIdParamsSchema,
+      response: responses(deleteUploadResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+
+      authorizeArtifact(request.principal, await artifactService.getArtifact(uploadId, { includeDeleted: true }));
+
+      const artifact = await artifactService.deleteArtifact(uploadId, request.principal.id);
+
+      fastify.log.info({ uploadId, principal: request.principal.id }, 'Upload deleted');
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          uploadId: artifact.uploadId,
+          deletedAt: artifact.deletedAt ?? null,
+          purgeAt: artifact.purgeAt ?? null,
+        },
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete upload',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Restore a deleted upload within its retention window
+  fastify.post('/uploads/:uploadId/restore', {
+    schema: {
+      tags: ['artifacts'],
+      summary: 'Restore a deleted upload within its retention window',
+      params: uploadIdParamsSchema,
+      response: responses(deleteUploadResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+
+      authorizeArtifact(request.principal, await artifactService.getArtifact(uploadId, { includeDeleted: true }));
+
+      const artifact = await artifactService.restoreArtifact(uploadId, request.principal.id);
+
+      fastify.log.info({ uploadId, principal: request.principal.id }, 'Upload restored');
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          uploadId: artifact.uploadId,
+          deletedAt: artifact.deletedAt ?? null,
+          purgeAt: artifact.purgeAt ?? null,
+        },
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore upload',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+};
+
+function toArtifactResponse(artifact: Artifact): ArtifactResponse {
+  return {
+    uploadId: artifact.uploadId,
+    fileName: artifact.fileName,
+    fileSize: artifact.fileSize,
+    fileType: artifact.fileType,
+    s3Key: artifact.s3Key,
+    s3Url: artifactService.getUrl(artifact),
+    compositeSha256: artifact.compositeSha256,
+    metadata: artifact.metadata ?? {},
+    uploader: artifact.owner ?? null,
+    createdAt: artifact.createdAt,
+    completedAt: artifact.completedAt,
+  };
+}
+
+/**
+ * Only the uploader and admins may act on an artifact
+ */
+function authorizeArtifact(principal: Principal, artifact: Artifact): void {
+  if (artifact.owner && artifact.owner !== principal.id && !isAdmin(principal)) {
+    throw new ForbiddenError('Upload belongs to another principal');
+  }
+}
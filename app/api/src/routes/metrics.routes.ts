@@ -0,0 +1,26 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { metricsService } from '../services/index.js';
+
+export async function metricsRoutes(fastify: FastifyInstance) {
+  // Prometheus scrape endpoint; restrict access at the network level
+  fastify.get('/metrics', {
+    schema: {
+      tags: ['metrics'],
+      summary: 'Prometheus metrics in the text exposition format',
+      security: [],
+    },
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = await metricsService.render();
+
+      return reply.status(200).header('Content-Type', metricsService.contentType).send(body);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to collect metrics',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+}
@@ -1,57 +1,125 @@
-import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { UploadService } from '../services/upload.service.js';
+import type { FastifyPluginAsyncZod } from 'fastify-type-provider-zod';
+import rateLimit from '@fastify/rate-limit';
+import { uploadService, webhookService } from '../services/index.js';
 import {
   initiateUploadSchema,
   completeUploadSchema,
-  getUploadStatusSchema,
+  signUploadPartsSchema,
+  reportUploadedPartSchema,
+  recoverUploadSchema,
   cancelUploadSchema,
+  uploadIdParamsSchema,
+  uploadEventsQuerySchema,
+  initiateUploadResponseSchema,
+  chunkUploadResponseSchema,
+  signUploadPartsResponseSchema,
+  completeUploadResponseSchema,
+  uploadStatusResponseSchema,
+  reconcileUploadResponseSchema,
+  extendUploadResponseSchema,
+  cancelUploadResponseSchema,
+  webhookDeliveriesResponseSchema,
+  quotaResponseSchema,
+  fileTypePolicyResponseSchema,
+  healthResponseSchema,
+  type UploadStatusResponse,
 } from '../schemas/upload.schema.js';
-import { ZodError } from 'zod';
-
-const uploadService = new UploadService();
+import { errorResponseSchema, responses } from '../schemas/common.schema.js';
+import { SessionNotFoundError, UploadError } from '../errors/upload.errors.js';
+import { sendError } from '../utils/http.js';
+import { config } from '../config/index.js';
+import { createAuthHook, isAdmin } from '../auth/auth.hook.js';
+import type { CompleteUploadResult, UploadedPart, UploadSession } from '../types/upload.js';
 
 interface UploadChunkRequest {
   Body: {
     uploadId: string;
     chunkIndex: string;
     totalChunks: string;
+    checksum: string;
   };
 }
 
-export async function uploadRoutes(fastify: FastifyInstance) {
+export const uploadRoutes: FastifyPluginAsyncZod = async (fastify) => {
+  // Identify the caller of every route not marked public
+  fastify.decorateRequest('principal', null);
+  fastify.addHook('onRequest', createAuthHook());
+
+  // Rate limits are opted into per route and counted per principal
+  await fastify.register(rateLimit, {
+    global: false,
+    timeWindow: config.RATE_LIMIT_WINDOW,
+    keyGenerator: (request) => request.principal?.id ?? request.ip,
+    errorResponseBuilder: (_request, context) =>
+      Object.assign(new Error(`Rate limit exceeded, retry in ${context.after}`), {
+        statusCode: 429,
+        code: 'RATE_LIMITED',
+      }),
+  });
+
   // Initiate upload
-  fastify.post('/upload/initiate', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post('/upload/initiate', {
+    config: { rateLimit: { max: config.RATE_LIMIT_INITIATE_MAX } },
+    schema: {
+      tags: ['uploads'],
+      summary: 'Start an upload session',
+      body: initiateUploadSchema,
+      response: responses(initiateUploadResponseSchema),
+    },
+  }, async (request, reply) => {
     try {
-      const validatedData = initiateUploadSchema.parse(request.body);
-
-      const session = await uploadService.initiateUpload(
-        validatedData.fileName,
-        validatedData.fileSize,
-        validatedData.fileType,
-        validatedData.chunkSize,
-        validatedData.metadata
-      );
+      const validatedData = request.body;
+
+      // Identical content already uploaded by this principal: nothing to send
+      const existing = validatedData.compositeSha256
+        ? await uploadService.findDuplicate(
+            request.principal.id,
+            validatedData.compositeSha256,
+            validatedData.fileSize,
+            validatedData.encryption
+          )
+        : null;
+
+      if (existing) {
+        return reply.status(200).send({
+          success: true,
+          data: {
+            deduplicated: true,
+            uploadId: existing.uploadId,
+            fileName: validatedData.fileName,
+            fileSize: existing.fileSize,
+            s3Key: existing.s3Key,
+            s3Url: existing.s3Url,
+            compositeSha256: existing.compositeSha256,
+            completedAt: existing.completedAt,
+          },
+        });
+      }
+
+      const session = await uploadService.initiateUpload({
+        ...validatedData,
+        owner: request.principal.id,
+      });
 
       return reply.status(200).send({
         success: true,
         data: {
+          deduplicated: false,
           uploadId: session.uploadId,
           fileName: session.fileName,
+          uploadMode: session.uploadMode,
         },
       });
     } catch (error) {
-      if (error instanceof ZodError) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Validation error',
-          details: error.errors,
-        });
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
       }
 
       fastify.log.error(error);
       return reply.status(500).send({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to initiate upload',
+        code: 'INTERNAL_ERROR',
       });
     }
   });
@@ -59,7 +127,18 @@ export async function uploadRoutes(fastify: FastifyInstance) {
   // Upload chunk
   fastify.post<UploadChunkRequest>(
     '/upload/chunk',
-    async (request: FastifyRequest<UploadChunkRequest>, reply: FastifyReply) => {
+    {
+      config: { rateLimit: { max: config.RATE_LIMIT_CHUNK_MAX } },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Upload a chunk through the API (proxy mode)',
+        description:
+          'multipart/form-data with the fields `uploadId`, `chunkIndex`, `totalChunks` and `checksum`, followed by the chunk as `file`',
+        consumes: ['multipart/form-data'],
+        response: responses(chunkUploadResponseSchema),
+      },
+    },
+    async (request, reply) => {
       try {
         const data = await request.file();
 
@@ -67,6 +146,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
           return reply.status(400).send({
             success: false,
             error: 'No file provided',
+            code: 'VALIDATION_ERROR',
           });
         }
 
@@ -74,6 +154,7 @@ export async function uploadRoutes(fastify: FastifyInstance) {
         let uploadId: string | undefined;
         let chunkIndex: string | undefined;
         let totalChunks: string | undefined;
+        let checksum: string | undefined;
 
         // Extract fields from the multipart data
         if (data.fields) {
@@ -89,19 +170,25 @@ export async function uploadRoutes(fastify: FastifyInstance) {
           if (fields.totalChunks) {
             totalChunks = typeof fields.totalChunks === 'object' ? fields.totalChunks.value : fields.totalChunks;
           }
+          if (fields.checksum) {
+            checksum = typeof fields.checksum === 'object' ? fields.checksum.value : fields.checksum;
+          }
         }
 
         // Log for debugging
-        fastify.log.info({ uploadId, chunkIndex, totalChunks, fields: data.fields }, 'Received chunk upload request');
+        fastify.log.info({ uploadId, chunkIndex, totalChunks, checksum }, 'Received chunk upload request');
 
-        if (!uploadId || !chunkIndex || !totalChunks) {
+        if (!uploadId || !chunkIndex || !totalChunks || !checksum) {
           return reply.status(400).send({
             success: false,
-            error: 'Missing required fields: uploadId, chunkIndex, or totalChunks',
-            received: { uploadId, chunkIndex, totalChunks },
+            error: 'Missing required fields: uploadId, chunkIndex, totalChunks, or checksum',
+            code: 'VALIDATION_ERROR',
+            received: { uploadId, chunkIndex, totalChunks, checksum },
           });
         }
 
+        await uploadService.authorizeSession(uploadId, request.principal.id);
+
         // Convert chunk index to number
         const chunkIndexNum = parseInt(chunkIndex, 10);
         const totalChunksNum = parseInt(totalChunks, 10);
@@ -110,18 +197,12 @@ export async function uploadRoutes(fastify: FastifyInstance) {
           return reply.status(400).send({
             success: false,
             error: 'Invalid chunk index or total chunks',
+            code: 'VALIDATION_ERROR',
           });
         }
 
-        // Read the chunk data
-        const chunks: Buffer[] = [];
-        for await (const chunk of data.file) {
-          chunks.push(chunk);
-        }
-        const buffer = Buffer.concat(chunks);
-
-        // Upload the chunk
-        const result = await uploadService.uploadChunk(uploadId, chunkIndexNum, buffer);
+        // Stream the chunk into storage, which verifies it against the checksum
+        const result = await uploadService.uploadChunk(uploadId, chunkIndexNum, data.file, checksum);
 
         return reply.status(200).send({
           success: true,
@@ -134,21 +215,122 @@ export async function uploadRoutes(fastify: FastifyInstance) {
           },
         });
       } catch (error) {
+        if (error instanceof UploadError) {
+          return sendError(reply, error);
+        }
+
         fastify.log.error(error);
         return reply.status(500).send({
           success: false,
           error: error instanceof Error ? error.message : 'Failed to upload chunk',
+          code: 'INTERNAL_ERROR',
         });
       }
     }
   );
 
+  // Sign part upload URLs (direct mode)
+  fastify.post('/upload/:uploadId/parts/sign', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Presign part upload URLs (direct mode)',
+      params: uploadIdParamsSchema,
+      body: signUploadPartsSchema,
+      response: responses(signUploadPartsResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+
+      await uploadService.authorizeSession(uploadId, request.principal.id);
+
+      const result = await uploadService.signUploadParts(
+        uploadId,
+        request.body.parts
+      );
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          uploadId,
+          parts: result.parts,
+          expiresAt: result.expiresAt,
+        },
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sign part URLs',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Report a part uploaded directly to S3 (direct mode)
+  fastify.post('/upload/:uploadId/parts', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Record a part uploaded straight to S3 (direct mode)',
+      params: uploadIdParamsSchema,
+      body: reportUploadedPartSchema,
+      response: responses(chunkUploadResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+      const { chunkIndex, etag, checksum } = request.body;
+
+      await uploadService.authorizeSession(uploadId, request.principal.id);
+
+      const result = await uploadService.recordUploadedPart(uploadId, chunkIndex, etag, checksum);
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          chunkIndex,
+          uploadId,
+          etag: result.etag,
+          partNumber: result.partNumber,
+          message: 'Part recorded successfully',
+        },
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to record part',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
   // Complete upload
-  fastify.post('/upload/complete', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post('/upload/complete', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Assemble the uploaded parts into the final object',
+      body: completeUploadSchema,
+      response: responses(completeUploadResponseSchema),
+    },
+  }, async (request, reply) => {
     try {
-      const validatedData = completeUploadSchema.parse(request.body);
+      const validatedData = request.body;
+
+      await uploadService.authorizeSession(validatedData.uploadId, request.principal.id);
 
-      const result = await uploadService.completeUpload(validatedData.uploadId);
+      const result = await uploadService.completeUpload(
+        validatedData.uploadId,
+        validatedData.parts
+      );
 
       return reply.status(200).send({
         success: true,
@@ -158,113 +340,437 @@ export async function uploadRoutes(fastify: FastifyInstance) {
           fileSize: result.fileSize,
           s3Key: result.s3Key,
           s3Url: result.s3Url,
-          completedAt: Date.now(),
+          compositeSha256: result.compositeSha256,
+          scan: result.scan,
+          completedAt: result.completedAt,
         },
       });
     } catch (error) {
-      if (error instanceof ZodError) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Validation error',
-          details: error.errors,
-        });
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
       }
 
       fastify.log.error(error);
       return reply.status(500).send({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to complete upload',
+        code: 'INTERNAL_ERROR',
       });
     }
   });
 
   // Get upload status
-  fastify.get('/upload/status/:uploadId', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.get('/upload/status/:uploadId', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Get the state of an upload session',
+      params: uploadIdParamsSchema,
+      response: responses(uploadStatusResponseSchema),
+    },
+  }, async (request, reply) => {
     try {
-      const params = request.params as { uploadId: string };
-      const validatedData = getUploadStatusSchema.parse(params);
+      const { uploadId } = request.params;
 
-      const session = uploadService.getUploadStatus(validatedData.uploadId);
+      await uploadService.authorizeSession(uploadId, request.principal.id);
+
+      const session = await uploadService.getUploadStatus(uploadId);
 
       if (!session) {
-        return reply.status(404).send({
-          success: false,
-          error: 'Upload session not found',
-        });
+        throw new SessionNotFoundError();
       }
 
-      // Return uploaded chunks in 0-indexed format for frontend
-      const uploadedChunks = session.uploadedParts.map((p) => p.partNumber - 1);
-      
       fastify.log.info({
         uploadId: session.uploadId,
-        uploadedChunks,
+        uploadedParts: session.uploadedParts.length,
         totalChunks: session.totalChunks,
       }, 'Upload status requested');
 
+      return reply.status(200).send({
+        success: true,
+        data: toUploadStatus(session),
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get upload status',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Stream progress of an upload as server-sent events
+  fastify.get(
+    '/upload/:uploadId/events',
+    {
+      config: { queryToken: true },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Stream upload progress as server-sent events',
+        description:
+          'text/event-stream of `snapshot`, `part-uploaded`, `status-changed`, `completed` and `expired` events',
+        params: uploadIdParamsSchema,
+        querystring: uploadEventsQuerySchema,
+        response: { default: errorResponseSchema },
+      },
+    },
+    async (request, reply) => {
+      let session: UploadSession;
+
+      try {
+        const { uploadId } = request.params;
+
+        await uploadService.authorizeSession(uploadId, request.principal.id);
+
+        const found = await uploadService.getUploadStatus(uploadId);
+
+        if (!found) {
+          throw new SessionNotFoundError();
+        }
+
+        session = found;
+      } catch (error) {
+        if (error instanceof UploadError) {
+          return sendError(reply, error);
+        }
+
+        fastify.log.error(error);
+        return reply.status(500).send({
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to open event stream',
+          code: 'INTERNAL_ERROR',
+        });
+      }
+
+      const { uploadId } = session;
+
+      // Take over the response; headers set by earlier hooks (CORS) are kept
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+
+      const send = (event: string, data: unknown) => {
+        reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      let expiryTimer: NodeJS.Timeout | undefined;
+
+      // Comment lines keep proxies from closing an idle stream
+      const heartbeat = setInterval(() => reply.raw.write(': heartbeat\n\n'), 15 * 1000);
+
+      const onPartUploaded = (s: UploadSession, part: UploadedPart) => {
+        if (s.uploadId !== uploadId) return;
+        send('part-uploaded', {
+          uploadId,
+          chunkIndex: part.partNumber - 1,
+          partNumber: part.partNumber,
+          uploadedChunks: s.uploadedParts.length,
+          totalChunks: s.totalChunks,
+        });
+        scheduleExpiry(s);
+      };
+
+      const onStatusChanged = (s: UploadSession, previous: UploadSession['status']) => {
+        if (s.uploadId !== uploadId) return;
+        send('status-changed', { uploadId, status: s.status, previous, scan: s.scan });
+        if (s.status === 'failed' || s.status === 'cancelled' || s.status === 'quarantined') {
+          close();
+        } else if (s.status === 'scanning') {
+          // Assembled sessions no longer expire
+          clearTimeout(expiryTimer);
+        }
+      };
+
+      const onCompleted = (s: UploadSession, result: CompleteUploadResult) => {
+        if (s.uploadId !== uploadId) return;
+        send('completed', { uploadId, fileName: s.fileName, ...result });
+        close();
+      };
+
+      const onExpired = (s: UploadSession) => {
+        if (s.uploadId !== uploadId) return;
+        send('expired', { uploadId, expiresAt: s.expiresAt });
+        close();
+      };
+
+      const onExtended = (s: UploadSession) => {
+        if (s.uploadId !== uploadId) return;
+        scheduleExpiry(s);
+      };
+
+      // Expiry is only recorded when the session is next touched, so watch the clock too
+      const scheduleExpiry = (s: UploadSession) => {
+        clearTimeout(expiryTimer);
+        expiryTimer = setTimeout(() => onExpired(s), Math.max(s.expiresAt - Date.now(), 0));
+      };
+
+      const close = () => {
+        clearInterval(heartbeat);
+        clearTimeout(expiryTimer);
+        uploadService.off('part.uploaded', onPartUploaded);
+        uploadService.off('status.changed', onStatusChanged);
+        uploadService.off('upload.completed', onCompleted);
+        uploadService.off('upload.expired', onExpired);
+        uploadService.off('upload.extended', onExtended);
+        reply.raw.end();
+      };
+
+      uploadService.on('part.uploaded', onPartUploaded);
+      uploadService.on('status.changed', onStatusChanged);
+      uploadService.on('upload.completed', onCompleted);
+      uploadService.on('upload.expired', onExpired);
+      uploadService.on('upload.extended', onExtended);
+      request.raw.on('close', close);
+
+      // Current state first, so late subscribers don't miss earlier parts
+      send('snapshot', toUploadStatus(session));
+
+      if (['completed', 'quarantined', 'failed', 'cancelled'].includes(session.status)) {
+        close();
+      } else if (session.status !== 'scanning') {
+        scheduleExpiry(session);
+      }
+    }
+  );
+
+  // Reconcile session state with the parts in storage
+  fastify.post('/upload/:uploadId/reconcile', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Rebuild the part list of a session from storage',
+      params: uploadIdParamsSchema,
+      response: responses(reconcileUploadResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+
+      await uploadService.authorizeSession(uploadId, request.principal.id);
+
+      const result = await uploadService.reconcileSession(uploadId);
+
       return reply.status(200).send({
         success: true,
         data: {
-          uploadId: session.uploadId,
-          fileName: session.fileName,
-          fileSize: session.fileSize,
-          uploadedChunks, // 0-indexed chunk numbers
-          totalChunks: session.totalChunks,
-          status: session.status,
-          createdAt: session.createdAt,
+          ...toUploadStatus(result.session),
+          reconciliation: {
+            added: result.added,
+            removed: result.removed,
+            changed: result.changed,
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reconcile upload',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Heartbeat keeping an idle session from expiring
+  fastify.post('/upload/:uploadId/extend', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Extend the expiry of an upload session that is waiting for parts',
+      params: uploadIdParamsSchema,
+      response: responses(extendUploadResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+
+      await uploadService.authorizeSession(uploadId, request.principal.id);
+
+      const session = await uploadService.extendUpload(uploadId);
+
+      return reply.status(200).send({
+        success: true,
+        data: {
+          uploadId,
           expiresAt: session.expiresAt,
+          maxExpiresAt: session.maxExpiresAt,
         },
       });
     } catch (error) {
-      if (error instanceof ZodError) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Validation error',
-          details: error.errors,
-        });
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
       }
 
       fastify.log.error(error);
       return reply.status(500).send({
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to get upload status',
+        error: error instanceof Error ? error.message : 'Failed to extend upload',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Recover a session from its storage key and multipart upload ID
+  fastify.post('/upload/recover', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Recreate a lost session from its multipart upload',
+      body: recoverUploadSchema,
+      response: responses(uploadStatusResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const session = await uploadService.recoverUpload({
+        ...request.body,
+        owner: request.principal.id,
+      });
+
+      return reply.status(200).send({
+        success: true,
+        data: toUploadStatus(session),
+      });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
+      }
+
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to recover upload',
+        code: 'INTERNAL_ERROR',
       });
     }
   });
 
   // Cancel upload
-  fastify.post('/upload/cancel', async (request: FastifyRequest, reply: FastifyReply) => {
+  fastify.post('/upload/cancel', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Cancel an upload and discard its parts',
+      body: cancelUploadSchema,
+      response: responses(cancelUploadResponseSchema),
+    },
+  }, async (request, reply) => {
     try {
-      const validatedData = cancelUploadSchema.parse(request.body);
+      const { uploadId } = request.body;
 
-      await uploadService.cancelUpload(validatedData.uploadId);
+      await uploadService.authorizeSession(uploadId, request.principal.id);
+      await uploadService.cancelUpload(uploadId);
 
       return reply.status(200).send({
         success: true,
         data: {
-          uploadId: validatedData.uploadId,
+          uploadId,
           message: 'Upload cancelled successfully',
         },
       });
     } catch (error) {
-      if (error instanceof ZodError) {
-        return reply.status(400).send({
-          success: false,
-          error: 'Validation error',
-          details: error.errors,
-        });
+      if (error instanceof UploadError) {
+        return sendError(reply, error);
       }
 
       fastify.log.error(error);
       return reply.status(500).send({
         success: false,
         error: error instanceof Error ? error.message : 'Failed to cancel upload',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Webhook deliveries for an upload, with every attempt
+  fastify.get('/upload/:uploadId/webhooks', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Webhook deliveries of an upload, with every attempt',
+      params: uploadIdParamsSchema,
+      response: responses(webhookDeliveriesResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const { uploadId } = request.params;
+
+      // Deliveries outlive their sessions, so ownership is checked on each delivery
+      const deliveries = await webhookService.listDeliveries({
+        uploadId,
+        owner: isAdmin(request.principal) ? undefined : request.principal.id,
+      });
+
+      return reply.status(200).send({
+        success: true,
+        data: { deliveries },
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list webhook deliveries',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+
+  // Quota usage of the caller
+  fastify.get('/quota', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Quota usage and limits of the caller',
+      response: responses(quotaResponseSchema),
+    },
+  }, async (request, reply) => {
+    try {
+      const usage = await uploadService.getQuotaUsage(request.principal.id);
+
+      return reply.status(200).send({
+        success: true,
+        data: usage,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get quota usage',
+        code: 'INTERNAL_ERROR',
       });
     }
   });
 
+  // File type policy, so clients can check files before uploading them
+  fastify.get('/upload/policy', {
+    schema: {
+      tags: ['uploads'],
+      summary: 'Which file types, extensions and sizes may be uploaded',
+      response: responses(fileTypePolicyResponseSchema),
+    },
+  }, async (_request, reply) => {
+    return reply.status(200).send({
+      success: true,
+      data: uploadService.getFileTypePolicy(),
+    });
+  });
+
   // Health check
-  fastify.get('/health', async (_request: FastifyRequest, reply: FastifyReply) => {
+  fastify.get('/health', {
+    config: { public: true },
+    schema: {
+      tags: ['health'],
+      summary: 'Health check',
+      security: [],
+      response: responses(healthResponseSchema),
+    },
+  }, async (_request, reply) => {
     return reply.status(200).send({
       success: true,
       data: {
@@ -273,5 +779,33 @@ export async function uploadRoutes(fastify: FastifyInstance) {
       },
     });
   });
+};
+
+/**
+ * Status payload of an upload session, with chunks 0-indexed for the frontend
+ */
+function toUploadStatus(session: UploadSession): UploadStatusResponse {
+  return {
+    uploadId: session.uploadId,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    uploadedChunks: session.uploadedParts.map((p) => p.partNumber - 1),
+    parts: session.uploadedParts.map((p) => ({
+      chunkIndex: p.partNumber - 1,
+      partNumber: p.partNumber,
+      etag: p.etag,
+      checksum: p.checksum,
+      size: p.size,
+    })),
+    totalChunks: session.totalChunks,
+    uploadMode: session.uploadMode,
+    status: session.status,
+    // Never the SSE-C customer key
+    encryption: session.encryption && { mode: session.encryption.mode, kmsKeyId: session.encryption.kmsKeyId },
+    compositeSha256: session.compositeSha256,
+    scan: session.scan,
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    maxExpiresAt: session.maxExpiresAt,
+  };
 }
-
@@ -0,0 +1,96 @@
+import { connect, type Socket } from 'net';
+import { Transform, type Readable, type TransformCallback } from 'stream';
+import { ScanFailedError } from '../errors/upload.errors.js';
+import type { ScanResult, Scanner } from './scanner.js';
+
+export interface ClamdOptions {
+  socketPath?: string; // Unix socket; takes precedence over host and port
+  host: string;
+  port: number;
+  timeout: number; // Milliseconds without activity before giving up
+}
+
+/**
+ * Scans files with a ClamAV daemon using its INSTREAM command.
+ *
+ * clamd refuses streams longer than its StreamMaxLength setting (25MB by
+ * default); raise it to the largest file that should be scanned.
+ */
+export class ClamdScanner implements Scanner {
+  readonly name = 'clamd';
+
+  constructor(private options: ClamdOptions) {}
+
+  async scan(body: Readable): Promise<ScanResult> {
+    const reply = await this.instream(body);
+    // e.g. "stream: OK" or "stream: Win.Test.EICAR_HDB-1 FOUND"
+    const match = /^stream: (.+?)(?: (FOUND|ERROR))?$/.exec(reply);
+
+    if (match?.[1] === 'OK' && !match[2]) {
+      return { verdict: 'clean' };
+    }
+
+    if (match?.[2] === 'FOUND') {
+      return { verdict: 'infected', signature: match[1] };
+    }
+
+    throw new ScanFailedError(`clamd could not scan the file: ${reply}`);
+  }
+
+  /**
+   * Send the body as length-prefixed chunks and return clamd's reply
+   */
+  private instream(body: Readable): Promise<string> {
+    const { socketPath, host, port, timeout } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket: Socket = socketPath ? connect(socketPath) : connect(port, host);
+      const received: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        body.unpipe();
+        body.destroy();
+        socket.destroy();
+
+        // clamd answers and hangs up early when it rejects the stream, which
+        // breaks the write side; its reply still explains why
+        if (received.length > 0) {
+          resolve(Buffer.concat(received).toString('utf8').replace(/\0/g, '').trim());
+        } else {
+          reject(new ScanFailedError(`clamd scan failed: ${error?.message ?? 'connection closed without a reply'}`));
+        }
+      };
+
+      socket.setTimeout(timeout, () => finish(new Error(`no response within ${timeout}ms`)));
+      socket.on('data', (data: Buffer) => received.push(data));
+      socket.on('end', () => finish());
+      socket.on('close', () => finish());
+      socket.on('error', finish);
+      body.on('error', finish);
+
+      socket.once('connect', () => {
+        socket.write('zINSTREAM\0');
+        body.pipe(new InstreamEncoder()).pipe(socket, { end: false });
+      });
+    });
+  }
+}
+
+/**
+ * Frames a stream for INSTREAM: each chunk prefixed with its length as a
+ * 32-bit big-endian integer, and a zero length to end the stream
+ */
+class InstreamEncoder extends Transform {
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(chunk.length);
+    callback(null, Buffer.concat([length, chunk]));
+  }
+
+  _flush(callback: TransformCallback): void {
+    callback(null, Buffer.alloc(4));
+  }
+}
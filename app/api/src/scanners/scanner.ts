@@ -0,0 +1,38 @@
+import type { Readable } from 'stream';
+import { config } from '../config/index.js';
+import type { ScanVerdict } from '../types/upload.js';
+import { ClamdScanner } from './clamd.scanner.js';
+import { StubScanner } from './stub.scanner.js';
+
+export type ScanResult = Pick<ScanVerdict, 'verdict' | 'signature'>;
+
+/**
+ * Checks file content for malware.
+ *
+ * The file is streamed to the scanner, so its size doesn't affect memory
+ * use. Throws ScanFailedError when the file could not be scanned.
+ */
+export interface Scanner {
+  readonly name: string;
+  scan(body: Readable): Promise<ScanResult>;
+}
+
+/**
+ * Create the scanner selected by SCANNER, or null when scanning is disabled
+ */
+export function createScanner(): Scanner | null {
+  switch (config.SCANNER) {
+    case 'clamd':
+      return new ClamdScanner({
+        socketPath: config.CLAMD_SOCKET,
+        host: config.CLAMD_HOST,
+        port: config.CLAMD_PORT,
+        timeout: config.CLAMD_TIMEOUT,
+      });
+    case 'stub':
+      return new StubScanner();
+    case 'none':
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,31 @@
+import type { Readable } from 'stream';
+import type { ScanResult, Scanner } from './scanner.js';
+
+// The EICAR anti-virus test file: harmless, but detected by every scanner
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Scanner for tests and local development that needs no anti-virus engine.
+ *
+ * A file is infected if it contains the EICAR test string anywhere.
+ */
+export class StubScanner implements Scanner {
+  readonly name = 'stub';
+
+  async scan(body: Readable): Promise<ScanResult> {
+    // Carried over so a match split across chunks is still found
+    let tail = '';
+
+    for await (const chunk of body) {
+      const text = tail + (chunk as Buffer).toString('latin1');
+
+      if (text.includes(EICAR)) {
+        return { verdict: 'infected', signature: 'Eicar-Test-Signature' };
+      }
+
+      tail = text.slice(-(EICAR.length - 1));
+    }
+
+    return { verdict: 'clean' };
+  }
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+// Sweep orphaned multipart uploads (query string)
+export const sweepQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => (v === undefined ? undefined : v === 'true')),
+  minAge: z
+    .string()
+    .regex(/^\d+$/, 'Min age must be a whole number of seconds')
+    .transform(Number)
+    .optional(),
+});
+
+export type SweepQueryInput = z.infer<typeof sweepQuerySchema>;
+
+// Read the audit log (query string)
+export const auditQuerySchema = z.object({
+  uploadId: z.string().min(1).optional(),
+});
+
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
+
+// List webhook deliveries (query string)
+export const webhookDeliveriesQuerySchema = z.object({
+  uploadId: z.string().min(1).optional(),
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+});
+
+export type WebhookDeliveriesQueryInput = z.infer<typeof webhookDeliveriesQuerySchema>;
+
+// Redeliver a webhook
+export const webhookDeliveryParamsSchema = z.object({
+  deliveryId: z.string().min(1, 'Delivery ID is required'),
+});
+
+// Response schemas
+const pendingMultipartUploadSchema = z.object({
+  key: z.string(),
+  uploadId: z.string(),
+  initiatedAt: z.number(),
+});
+
+export const sweepResponseSchema = z.object({
+  dryRun: z.boolean(),
+  olderThan: z.number(),
+  scanned: z.number(),
+  aborted: z.array(pendingMultipartUploadSchema),
+  failed: z.array(pendingMultipartUploadSchema.extend({ error: z.string() })),
+});
+
+export const auditResponseSchema = z.object({
+  events: z.array(
+    z.object({
+      at: z.number(),
+      action: z.enum(['delete', 'restore', 'purge']),
+      principal: z.string(),
+      uploadId: z.string(),
+      s3Key: z.string(),
+      fileName: z.string(),
+      owner: z.string().optional(),
+    })
+  ),
+});
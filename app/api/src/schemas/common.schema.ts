@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+// Body of every failed request
+export const errorResponseSchema = z
+  .object({
+    success: z.literal(false),
+    error: z.string(),
+    code: z.string().optional(),
+    details: z.unknown().optional(),
+  })
+  .passthrough();
+
+export type ErrorResponseBody = z.infer<typeof errorResponseSchema>;
+
+/**
+ * Response schemas of a route: `data` wrapped in the success envelope, and the
+ * error envelope for every other status
+ */
+export function responses<T extends z.ZodTypeAny>(data: T) {
+  return {
+    200: z.object({ success: z.literal(true), data }),
+    default: errorResponseSchema,
+  };
+}
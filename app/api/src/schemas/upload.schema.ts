@@ -1,4 +1,78 @@
 import { z } from 'zod';
+import { config } from '../config/index.js';
+
+// Base64-encoded SHA-256 digest (32 bytes)
+const checksumSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9+/]{43}=$/, 'Checksum must be a base64-encoded SHA-256 digest');
+
+// Composite SHA-256 of a multipart upload: base64 digest of the part digests,
+// then -<partCount>. Not a hash of the file; it changes with the chunk size
+const compositeDigestSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9+/]{43}=-\d+$/, 'compositeSha256 must be a composite digest (<base64>-<partCount>)');
+
+const uploadEventSchema = z.enum([
+  'upload.completed',
+  'upload.failed',
+  'upload.cancelled',
+  'upload.expired',
+  'upload.quarantined',
+]);
+
+// Server-side encryption requested for an upload; checked against the
+// server's allowlists when the upload is initiated
+const encryptionSchema = z.discriminatedUnion('mode', [
+  z.object({ mode: z.literal('none') }),
+  z.object({ mode: z.literal('SSE-S3') }),
+  z.object({ mode: z.literal('SSE-KMS'), kmsKeyId: z.string().min(1).optional() }),
+  z.object({
+    mode: z.literal('SSE-C'),
+    customerKey: z.string().regex(/^[A-Za-z0-9+/]{43}=$/, 'Customer key must be a base64-encoded 256-bit key'),
+  }),
+]);
+
+// S3 object tags: at most OBJECT_MAX_TAGS, in the characters S3 accepts
+const tagTextSchema = z
+  .string()
+  .regex(/^[\p{L}\p{N}\s+\-=._:/@]*$/u, 'Tags may only contain letters, numbers, spaces and + - = . _ : / @');
+
+const tagsSchema = z
+  .record(tagTextSchema.min(1).max(128), tagTextSchema.max(256))
+  .refine((tags) => Object.keys(tags).length <= config.OBJECT_MAX_TAGS, {
+    message: `At most ${config.OBJECT_MAX_TAGS} tags per upload`,
+  });
+
+const allowedStorageClasses = config.OBJECT_STORAGE_CLASSES_ALLOWED.split(',').map((storageClass) => storageClass.trim());
+
+const storageClassSchema = z
+  .enum(['STANDARD', 'INTELLIGENT_TIERING', 'GLACIER_IR'])
+  .refine((storageClass) => allowedStorageClasses.includes(storageClass), {
+    message: `Storage class must be one of ${allowedStorageClasses.join(', ')}`,
+  });
+
+// Stored and sent as an HTTP header, so printable ASCII only
+const headerValueSchema = z.string().max(1024).regex(/^[\x20-\x7e]*$/, 'Header values must be printable ASCII');
+
+// Per-upload webhook subscription
+const webhookSubscriptionSchema = z
+  .object({
+    url: z.string().url('Webhook URL must be a valid URL'),
+    events: z.array(uploadEventSchema).min(1).optional(),
+    secret: z.string().min(16, 'Webhook secret must be at least 16 characters').optional(),
+  })
+  .superRefine((webhook, ctx) => {
+    // Hosts are checked when the upload is initiated, since that needs DNS
+    const url = new URL(webhook.url);
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'Webhook URL must use http or https' });
+    }
+
+    if (!webhook.secret && !config.WEBHOOK_SECRET) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['secret'], message: 'A webhook secret is required' });
+    }
+  });
 
 // Initiate upload schema
 export const initiateUploadSchema = z.object({
@@ -7,6 +81,14 @@ export const initiateUploadSchema = z.object({
   fileType: z.string().min(1, 'File type is required'),
   chunkSize: z.number().positive('Chunk size must be positive').optional(),
   metadata: z.record(z.string()).optional(),
+  tags: tagsSchema.optional(),
+  storageClass: storageClassSchema.optional(),
+  cacheControl: headerValueSchema.optional(),
+  contentDisposition: headerValueSchema.optional(),
+  uploadMode: z.enum(['proxy', 'direct']).optional(),
+  encryption: encryptionSchema.optional(),
+  compositeSha256: compositeDigestSchema.optional(),
+  webhooks: z.array(webhookSubscriptionSchema).max(5, 'At most 5 webhooks per upload').optional(),
 });
 
 export type InitiateUploadInput = z.infer<typeof initiateUploadSchema>;
@@ -16,26 +98,82 @@ export const uploadChunkSchema = z.object({
   uploadId: z.string().min(1, 'Upload ID is required'),
   chunkIndex: z.string().regex(/^\d+$/, 'Chunk index must be a number').transform(Number),
   totalChunks: z.string().regex(/^\d+$/, 'Total chunks must be a number').transform(Number),
+  checksum: checksumSchema,
   // file is handled by multipart
 });
 
 export type UploadChunkInput = z.infer<typeof uploadChunkSchema>;
 
+// Routes addressing an upload by ID
+export const uploadIdParamsSchema = z.object({
+  uploadId: z.string().min(1, 'Upload ID is required'),
+});
+
+export type UploadIdParamsInput = z.infer<typeof uploadIdParamsSchema>;
+
+// Sign part URLs schema (direct mode)
+export const signUploadPartsSchema = z.object({
+  parts: z
+    .array(
+      z.object({
+        chunkIndex: z.number().int().nonnegative('Chunk index must be non-negative'),
+        checksum: checksumSchema,
+      })
+    )
+    .min(1, 'At least one part is required')
+    .max(100, 'At most 100 parts can be signed per request'),
+});
+
+export type SignUploadPartsInput = z.infer<typeof signUploadPartsSchema>;
+
+// Report uploaded part schema (direct mode)
+export const reportUploadedPartSchema = z.object({
+  chunkIndex: z.number().int().nonnegative('Chunk index must be non-negative'),
+  etag: z.string().min(1, 'ETag is required'),
+  checksum: checksumSchema,
+});
+
+export type ReportUploadedPartInput = z.infer<typeof reportUploadedPartSchema>;
+
 // Complete upload schema
 export const completeUploadSchema = z.object({
   uploadId: z.string().min(1, 'Upload ID is required'),
   totalChunks: z.number().int().positive('Total chunks must be a positive integer'),
   fileName: z.string().min(1, 'File name is required'),
+  // ETags returned by S3 for direct-mode uploads
+  parts: z
+    .array(
+      z.object({
+        chunkIndex: z.number().int().nonnegative(),
+        etag: z.string().min(1),
+      })
+    )
+    .optional(),
 });
 
 export type CompleteUploadInput = z.infer<typeof completeUploadSchema>;
 
-// Get upload status schema
-export const getUploadStatusSchema = z.object({
-  uploadId: z.string().min(1, 'Upload ID is required'),
+// Upload event stream (query string); EventSource can't send headers
+export const uploadEventsQuerySchema = z.object({
+  access_token: z.string().min(1).optional(),
+  api_key: z.string().min(1).optional(),
+});
+
+// Recover upload schema (rebuild a lost session from storage)
+export const recoverUploadSchema = z.object({
+  s3Key: z.string().min(1, 'S3 key is required'),
+  s3UploadId: z.string().min(1, 'S3 upload ID is required'),
+  fileName: z.string().min(1).optional(),
+  fileSize: z.number().positive('File size must be positive').optional(),
+  fileType: z.string().min(1).optional(),
+  chunkSize: z.number().positive('Chunk size must be positive').optional(),
+  uploadMode: z.enum(['proxy', 'direct']).optional(),
+  encryption: encryptionSchema.optional(),
+  compositeSha256: compositeDigestSchema.optional(),
+  webhooks: z.array(webhookSubscriptionSchema).max(5, 'At most 5 webhooks per upload').optional(),
 });
 
-export type GetUploadStatusInput = z.infer<typeof getUploadStatusSchema>;
+export type RecoverUploadInput = z.infer<typeof recoverUploadSchema>;
 
 // Cancel upload schema
 export const cancelUploadSchema = z.object({
@@ -44,31 +182,113 @@ export const cancelUploadSchema = z.object({
 
 export type CancelUploadInput = z.infer<typeof cancelUploadSchema>;
 
+// Epoch milliseconds or an ISO 8601 date in a query string
+const timestampQuerySchema = z.string().transform((value, ctx) => {
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be epoch milliseconds or an ISO 8601 date' });
+    return z.NEVER;
+  }
+  return timestamp;
+});
+
+// List uploads schema (query string); `metadata.<key>=<value>` filters on metadata
+export const listUploadsQuerySchema = z
+  .object({
+    limit: z
+      .string()
+      .regex(/^\d+$/, 'Limit must be a number')
+      .transform(Number)
+      .pipe(z.number().int().min(1).max(100))
+      .default('20'),
+    cursor: z.string().min(1).optional(),
+    sort: z.enum(['completedAt', 'createdAt', 'fileName', 'fileSize']).default('completedAt'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    namePrefix: z.string().min(1).optional(),
+    completedAfter: timestampQuerySchema.optional(),
+    completedBefore: timestampQuerySchema.optional(),
+    uploader: z.string().min(1).optional(),
+  })
+  .passthrough()
+  .transform(({ limit, cursor, sort, order, namePrefix, completedAfter, completedBefore, uploader, ...rest }) => {
+    const metadata: Record<string, string> = {};
+    for (const [key, value] of Object.entries(rest)) {
+      if (key.startsWith('metadata.') && typeof value === 'string') {
+        metadata[key.slice('metadata.'.length)] = value;
+      }
+    }
+    return { limit, cursor, sort, order, namePrefix, completedAfter, completedBefore, uploader, metadata };
+  });
+
+export type ListUploadsQueryInput = z.infer<typeof listUploadsQuerySchema>;
+
+// Download upload schema (query string)
+export const downloadUploadQuerySchema = z.object({
+  mode: z.enum(['redirect', 'proxy']).optional(),
+});
+
+export type DownloadUploadQueryInput = z.infer<typeof downloadUploadQuerySchema>;
+
 // Response schemas
-export const uploadResponseSchema = z.object({
-  success: z.boolean(),
-  uploadId: z.string(),
-  fileName: z.string(),
-  chunkSize: z.number(),
-  totalChunks: z.number(),
-  expiresAt: z.number(),
+const uploadStatusValueSchema = z.enum([
+  'pending',
+  'uploading',
+  'scanning',
+  'completed',
+  'quarantined',
+  'failed',
+  'cancelled',
+]);
+
+const scanVerdictSchema = z.object({
+  verdict: z.enum(['clean', 'infected']),
+  signature: z.string().optional(),
+  scanner: z.string(),
+  scannedAt: z.number(),
 });
 
+export const initiateUploadResponseSchema = z.discriminatedUnion('deduplicated', [
+  z.object({
+    deduplicated: z.literal(false),
+    uploadId: z.string(),
+    fileName: z.string(),
+    uploadMode: z.enum(['proxy', 'direct']),
+  }),
+  // Identical content was already uploaded; no chunks need to be sent
+  z.object({
+    deduplicated: z.literal(true),
+    uploadId: z.string(),
+    fileName: z.string(),
+    fileSize: z.number(),
+    s3Key: z.string(),
+    s3Url: z.string(),
+    compositeSha256: z.string(),
+    completedAt: z.number(),
+  }),
+]);
+
 export const chunkUploadResponseSchema = z.object({
-  success: z.boolean(),
   chunkIndex: z.number(),
   uploadId: z.string(),
   etag: z.string(),
-  message: z.string().optional(),
+  partNumber: z.number(),
+  message: z.string(),
+});
+
+export const signUploadPartsResponseSchema = z.object({
+  uploadId: z.string(),
+  parts: z.array(z.object({ partNumber: z.number(), url: z.string() })),
+  expiresAt: z.number(),
 });
 
 export const completeUploadResponseSchema = z.object({
-  success: z.boolean(),
   uploadId: z.string(),
   fileName: z.string(),
   fileSize: z.number(),
   s3Key: z.string(),
-  s3Url: z.string().optional(),
+  s3Url: z.string(),
+  compositeSha256: z.string(),
+  scan: scanVerdictSchema.optional(),
   completedAt: z.number(),
 });
 
@@ -77,9 +297,125 @@ export const uploadStatusResponseSchema = z.object({
   fileName: z.string(),
   fileSize: z.number(),
   uploadedChunks: z.array(z.number()),
+  parts: z.array(
+    z.object({
+      chunkIndex: z.number(),
+      partNumber: z.number(),
+      etag: z.string(),
+      checksum: z.string().optional(),
+      size: z.number().optional(),
+    })
+  ),
   totalChunks: z.number(),
-  status: z.enum(['pending', 'uploading', 'completed', 'failed', 'cancelled']),
+  uploadMode: z.enum(['proxy', 'direct']),
+  status: uploadStatusValueSchema,
+  encryption: z
+    .object({
+      mode: z.enum(['none', 'SSE-S3', 'SSE-KMS', 'SSE-C']),
+      kmsKeyId: z.string().optional(),
+    })
+    .optional(),
+  compositeSha256: z.string().optional(),
+  scan: scanVerdictSchema.optional(),
   createdAt: z.number(),
   expiresAt: z.number(),
+  maxExpiresAt: z.number(),
+});
+
+export type UploadStatusResponse = z.infer<typeof uploadStatusResponseSchema>;
+
+export const reconcileUploadResponseSchema = uploadStatusResponseSchema.extend({
+  reconciliation: z.object({
+    added: z.array(z.number()),
+    removed: z.array(z.number()),
+    changed: z.array(z.number()),
+  }),
+});
+
+export const extendUploadResponseSchema = z.object({
+  uploadId: z.string(),
+  expiresAt: z.number(),
+  maxExpiresAt: z.number(),
+});
+
+export const cancelUploadResponseSchema = z.object({
+  uploadId: z.string(),
+  message: z.string(),
+});
+
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  event: uploadEventSchema,
+  url: z.string(),
+  uploadId: z.string(),
+  owner: z.string().optional(),
+  status: z.enum(['pending', 'delivered', 'failed']),
+  attempts: z.array(
+    z.object({
+      at: z.number(),
+      statusCode: z.number().optional(),
+      error: z.string().optional(),
+      durationMs: z.number(),
+    })
+  ),
+  nextAttemptAt: z.number().optional(),
+  createdAt: z.number(),
+  payload: z.unknown(), // The signed JSON body, parsed
+});
+
+export const webhookDeliveriesResponseSchema = z.object({
+  deliveries: z.array(webhookDeliverySchema),
+});
+
+const quotaLimitSchema = z.object({ used: z.number(), limit: z.number() });
+
+export const quotaResponseSchema = z.object({
+  principal: z.string(),
+  concurrentSessions: quotaLimitSchema,
+  bytesInFlight: quotaLimitSchema,
+  bytesToday: quotaLimitSchema.extend({ resetsAt: z.number() }),
+});
+
+export const fileTypePolicyResponseSchema = z.object({
+  allowedTypes: z.array(z.string()),
+  deniedTypes: z.array(z.string()),
+  allowedExtensions: z.array(z.string()),
+  deniedExtensions: z.array(z.string()),
+  maxFileSize: z.number(),
+  maxSizes: z.record(z.number()),
+  contentSniffing: z.boolean(),
+});
+
+export const healthResponseSchema = z.object({
+  status: z.literal('healthy'),
+  timestamp: z.number(),
+});
+
+export const artifactResponseSchema = z.object({
+  uploadId: z.string(),
+  fileName: z.string(),
+  fileSize: z.number(),
+  fileType: z.string(),
+  s3Key: z.string(),
+  s3Url: z.string(),
+  compositeSha256: z.string(),
+  metadata: z.record(z.string()),
+  uploader: z.string().nullable(),
+  createdAt: z.number(),
+  completedAt: z.number(),
+});
+
+export type ArtifactResponse = z.infer<typeof artifactResponseSchema>;
+
+export const listUploadsResponseSchema = z.object({
+  items: z.array(artifactResponseSchema),
+  nextCursor: z.string().nullable(),
 });
 
+export type ListUploadsResponse = z.infer<typeof listUploadsResponseSchema>;
+
+export const deleteUploadResponseSchema = z.object({
+  uploadId: z.string(),
+  deletedAt: z.number().nullable(),
+  purgeAt: z.number().nullable(),
+});
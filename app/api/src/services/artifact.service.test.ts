@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EncryptionNotAllowedError, InvalidCursorError } from '../errors/upload.errors.js';
+import { MemoryArtifactStore } from '../stores/artifact.store.js';
+import { MemoryAuditLog } from '../stores/audit.log.js';
+import { MemoryContentIndex } from '../stores/content-index.store.js';
+import type { Artifact, ListArtifactsQuery } from '../types/upload.js';
+import { ArtifactService } from './artifact.service.js';
+import type { StorageProvider } from './storage.provider.js';
+
+function artifact(uploadId: string, overrides: Partial<Artifact> = {}): Artifact {
+  return {
+    uploadId,
+    fileName: `${uploadId}.bin`,
+    fileSize: 1024,
+    fileType: 'application/octet-stream',
+    s3Key: `uploads/${uploadId}/${uploadId}.bin`,
+    compositeSha256: `digest-${uploadId}-1`,
+    owner: 'alice',
+    createdAt: 1000,
+    completedAt: 2000,
+    ...overrides,
+  };
+}
+
+describe('ArtifactService', () => {
+  let artifactStore: MemoryArtifactStore;
+  let contentIndex: MemoryContentIndex;
+  let service: ArtifactService;
+
+  beforeEach(() => {
+    // The service purges deleted artifacts on an interval
+    vi.useFakeTimers();
+    artifactStore = new MemoryArtifactStore();
+    contentIndex = new MemoryContentIndex();
+    service = new ArtifactService(artifactStore, {} as StorageProvider, contentIndex, new MemoryAuditLog());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('listArtifacts', () => {
+    const query = (overrides: Partial<ListArtifactsQuery> = {}): ListArtifactsQuery => ({
+      limit: 2,
+      sort: 'completedAt',
+      order: 'desc',
+      ...overrides,
+    });
+
+    // Every page of a listing, following nextCursor
+    async function listAll(overrides: Partial<ListArtifactsQuery> = {}): Promise<string[][]> {
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = await service.listArtifacts(query({ ...overrides, cursor }));
+        pages.push(page.items.map((a) => a.uploadId));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      return pages;
+    }
+
+    beforeEach(async () => {
+      await artifactStore.save(artifact('a', { completedAt: 3000, fileSize: 30 }));
+      await artifactStore.save(artifact('b', { completedAt: 1000, fileSize: 10 }));
+      await artifactStore.save(artifact('c', { completedAt: 2000, fileSize: 20 }));
+      // Ties on the sort value are broken by upload ID
+      await artifactStore.save(artifact('d', { completedAt: 2000, fileSize: 40 }));
+      await artifactStore.save(artifact('e', { completedAt: 2500, deletedAt: 2600 }));
+    });
+
+    it('pages through every artifact once, in order', async () => {
+      expect(await listAll()).toEqual([['a', 'd'], ['c', 'b']]);
+      expect(await listAll({ order: 'asc', limit: 3 })).toEqual([['b', 'c', 'd'], ['a']]);
+      expect(await listAll({ sort: 'fileSize', limit: 1 })).toEqual([['d'], ['a'], ['c'], ['b']]);
+    });
+
+    it('ends without a cursor when the last page is full', async () => {
+      const page = await service.listArtifacts(query({ limit: 4 }));
+
+      expect(page.items).toHaveLength(4);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('continues after the cursor when artifacts are added between pages', async () => {
+      const first = await service.listArtifacts(query());
+      await artifactStore.save(artifact('f', { completedAt: 4000 }));
+
+      const second = await service.listArtifacts(query({ cursor: first.nextCursor! }));
+
+      expect(second.items.map((a) => a.uploadId)).toEqual(['c', 'b']);
+    });
+
+    it('applies filters on every page', async () => {
+      await artifactStore.save(artifact('g', { owner: 'bob', completedAt: 5000 }));
+
+      expect(await listAll({ owner: 'bob' })).toEqual([['g']]);
+      expect(await listAll({ completedAfter: 2000, completedBefore: 3000 })).toEqual([['d', 'c']]);
+    });
+
+    it('rejects cursors that are malformed or from another sort', async () => {
+      const { nextCursor } = await service.listArtifacts(query());
+
+      await expect(service.listArtifacts(query({ cursor: 'not-a-cursor' }))).rejects.toThrow(InvalidCursorError);
+      await expect(service.listArtifacts(query({ cursor: nextCursor!, order: 'asc' }))).rejects.toThrow(
+        InvalidCursorError
+      );
+      await expect(service.listArtifacts(query({ cursor: nextCursor!, sort: 'fileName' }))).rejects.toThrow(
+        InvalidCursorError
+      );
+    });
+  });
+
+  describe('restoreArtifact', () => {
+    const deleted = (uploadId: string, overrides: Partial<Artifact>) =>
+      artifact(uploadId, { deletedAt: 2500, deletedBy: 'alice', purgeAt: Date.now() + 60_000, ...overrides });
+
+    it('indexes the restored object with its encryption', async () => {
+      await artifactStore.save(deleted('a', { encryption: { mode: 'SSE-KMS', kmsKeyId: 'key-1' } }));
+
+      await service.restoreArtifact('a', 'alice');
+
+      expect((await contentIndex.get('alice', 'digest-a-1'))?.encryption).toEqual({
+        mode: 'SSE-KMS',
+        kmsKeyId: 'key-1',
+      });
+    });
+
+    it('does not index SSE-C objects or objects of unknown encryption', async () => {
+      await artifactStore.save(deleted('a', { encryption: { mode: 'SSE-C' } }));
+      await artifactStore.save(deleted('b', {}));
+
+      await service.restoreArtifact('a', 'alice');
+      await service.restoreArtifact('b', 'alice');
+
+      expect(await contentIndex.get('alice', 'digest-a-1')).toBeNull();
+      expect(await contentIndex.get('alice', 'digest-b-1')).toBeNull();
+      expect((await service.getArtifact('a')).deletedAt).toBeUndefined();
+    });
+  });
+
+  describe('downloads', () => {
+    it('refuses SSE-C objects', async () => {
+      const encrypted = artifact('a', { encryption: { mode: 'SSE-C' } });
+
+      await expect(service.getDownloadUrl(encrypted)).rejects.toThrow(EncryptionNotAllowedError);
+      await expect(service.statObject(encrypted)).rejects.toThrow(EncryptionNotAllowedError);
+      await expect(service.openObject(encrypted)).rejects.toThrow(EncryptionNotAllowedError);
+    });
+  });
+
+  describe('deleteArtifact', () => {
+    it('removes the content index entry of the deleted upload', async () => {
+      const first = artifact('a', { compositeSha256: 'same-1' });
+      await artifactStore.save(first);
+      await contentIndex.save(first);
+
+      await service.deleteArtifact('a', 'alice');
+
+      expect(await contentIndex.get('alice', 'same-1')).toBeNull();
+    });
+
+    it('keeps an entry that points at another upload of the same content', async () => {
+      const first = artifact('a', { compositeSha256: 'same-1' });
+      const second = artifact('b', { compositeSha256: 'same-1' });
+      await artifactStore.save(first);
+      await artifactStore.save(second);
+      await contentIndex.save(second);
+
+      await service.deleteArtifact('a', 'alice');
+
+      expect((await contentIndex.get('alice', 'same-1'))?.uploadId).toBe('b');
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import { createStorageProvider, type StorageProvider } from './storage.provider.js';
+import { createArtifactStore, type ArtifactStore } from '../stores/artifact.store.js';
+import { createContentIndex, type ContentIndex } from '../stores/content-index.store.js';
+import { createAuditLog, type AuditLog } from '../stores/audit.log.js';
+import { config } from '../config/index.js';
+import { EncryptionNotAllowedError, InvalidCursorError, NotFoundError } from '../errors/upload.errors.js';
+import type { Readable } from 'stream';
+import type {
+  Artifact,
+  ArtifactPage,
+  ArtifactSortField,
+  AuditAction,
+  AuditEvent,
+  ByteRange,
+  ListArtifactsQuery,
+  StoredObjectInfo,
+} from '../types/upload.js';
+
+interface Cursor {
+  sort: ArtifactSortField;
+  order: 'asc' | 'desc';
+  value: string | number; // Sort value of the last item on the previous page
+  uploadId: string; // Tie-breaker
+}
+
+/**
+ * Access to completed uploads, including their soft deletion
+ */
+export class ArtifactService {
+  private artifactStore: ArtifactStore;
+  private storage: StorageProvider;
+  private contentIndex: ContentIndex;
+  private auditLog: AuditLog;
+
+  constructor(
+    artifactStore: ArtifactStore = createArtifactStore(),
+    storage: StorageProvider = createStorageProvider(),
+    contentIndex: ContentIndex = createContentIndex(),
+    auditLog: AuditLog = createAuditLog()
+  ) {
+    this.artifactStore = artifactStore;
+    this.storage = storage;
+    this.contentIndex = contentIndex;
+    this.auditLog = auditLog;
+
+    // Purge deleted artifacts past their retention every 5 minutes
+    setInterval(() => {
+      this.purgeDeletedArtifacts().catch((error) => {
+        console.error('Error purging deleted artifacts:', error);
+      });
+    }, 5 * 60 * 1000);
+  }
+
+  /**
+   * List completed uploads matching the query, one page at a time
+   */
+  async listArtifacts(query: ListArtifactsQuery): Promise<ArtifactPage> {
+    const cursor = query.cursor ? decodeCursor(query.cursor, query) : undefined;
+    const direction = query.order === 'asc' ? 1 : -1;
+
+    const compare = (a: Pick<Artifact, 'uploadId'>, aValue: string | number, b: Artifact) => {
+      const bValue = b[query.sort];
+      const byValue = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+      return (byValue || a.uploadId.localeCompare(b.uploadId)) * direction;
+    };
+
+    const matching = (await this.artifactStore.list())
+      .filter((artifact) => !artifact.deletedAt && matches(artifact, query))
+      .sort((a, b) => compare(a, a[query.sort], b));
+
+    const remaining = cursor
+      ? matching.filter((artifact) => compare({ uploadId: cursor.uploadId }, cursor.value, artifact) < 0)
+      : matching;
+
+    const items = remaining.slice(0, query.limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor:
+        remaining.length > query.limit && last
+          ? encodeCursor({ sort: query.sort, order: query.order, value: last[query.sort], uploadId: last.uploadId })
+          : null,
+    };
+  }
+
+  /**
+   * Get a completed upload by its upload ID. Deleted uploads are only
+   * returned with `includeDeleted`.
+   */
+  async getArtifact(uploadId: string, { includeDeleted = false } = {}): Promise<Artifact> {
+    const artifact = await this.artifactStore.get(uploadId);
+
+    if (!artifact || (artifact.deletedAt && !includeDeleted)) {
+      throw new NotFoundError();
+    }
+
+    return artifact;
+  }
+
+  /**
+   * Soft-delete an artifact: hide it from reads and schedule its object for
+   * removal after DELETION_RETENTION
+   */
+  async deleteArtifact(uploadId: string, principalId: string): Promise<Artifact> {
+    const artifact = await this.getArtifact(uploadId);
+    const now = Date.now();
+
+    artifact.deletedAt = now;
+    artifact.deletedBy = principalId;
+    artifact.purgeAt = now + config.DELETION_RETENTION * 1000;
+    await this.artifactStore.save(artifact);
+
+    // Re-uploads of the same content must not resolve to a deleted object.
+    // The entry may point at a later upload of the same content, which stays.
+    const entry = await this.contentIndex.get(artifact.owner, artifact.compositeSha256);
+    if (entry?.uploadId === artifact.uploadId) {
+      await this.contentIndex.delete(artifact.owner, artifact.compositeSha256);
+    }
+
+    await this.audit('delete', artifact, principalId);
+
+    return artifact;
+  }
+
+  /**
+   * Undo a soft delete while the object is still retained
+   */
+  async restoreArtifact(uploadId: string, principalId: string): Promise<Artifact> {
+    const artifact = await this.getArtifact(uploadId, { includeDeleted: true });
+
+    if (!artifact.deletedAt) {
+      return artifact;
+    }
+
+    if (artifact.purgeAt !== undefined && artifact.purgeAt <= Date.now()) {
+      throw new NotFoundError('Upload retention has expired');
+    }
+
+    artifact.deletedAt = undefined;
+    artifact.deletedBy = undefined;
+    artifact.purgeAt = undefined;
+    await this.artifactStore.save(artifact);
+
+    // Like completion, never index SSE-C objects, nor objects whose encryption
+    // wasn't recorded
+    if (config.DEDUP_ENABLED && artifact.encryption && artifact.encryption.mode !== 'SSE-C') {
+      await this.contentIndex.save({
+        compositeSha256: artifact.compositeSha256,
+        owner: artifact.owner,
+        fileName: artifact.fileName,
+        fileSize: artifact.fileSize,
+        fileType: artifact.fileType,
+        s3Key: artifact.s3Key,
+        uploadId: artifact.uploadId,
+        encryption: artifact.encryption,
+        completedAt: artifact.completedAt,
+      });
+    }
+
+    await this.audit('restore', artifact, principalId);
+
+    return artifact;
+  }
+
+  /**
+   * Audit events, optionally for a single upload
+   */
+  async getAuditEvents(uploadId?: string): Promise<AuditEvent[]> {
+    return this.auditLog.list({ uploadId });
+  }
+
+  /**
+   * Short-lived URL the client can download the object from directly, or
+   * null when the storage provider can't presign one
+   */
+  async getDownloadUrl(artifact: Artifact): Promise<string | null> {
+    assertDownloadable(artifact);
+
+    if (!this.storage.getDownloadUrl) {
+      return null;
+    }
+
+    return this.storage.getDownloadUrl(artifact.s3Key, {
+      fileName: artifact.fileName,
+      contentType: artifact.fileType,
+      expiresIn: config.DOWNLOAD_URL_EXPIRATION,
+    });
+  }
+
+  /**
+   * Size, ETag and modification time of an artifact's object
+   */
+  async statObject(artifact: Artifact): Promise<StoredObjectInfo> {
+    assertDownloadable(artifact);
+    return this.storage.headObject(artifact.s3Key);
+  }
+
+  /**
+   * Stream an artifact's object, or a byte range of it
+   */
+  async openObject(artifact: Artifact, range?: ByteRange): Promise<Readable> {
+    assertDownloadable(artifact);
+    return this.storage.getObject(artifact.s3Key, range);
+  }
+
+  /**
+   * URL of an artifact's object
+   */
+  getUrl(artifact: Artifact): string {
+    return this.storage.getUrl(artifact.s3Key);
+  }
+
+  /**
+   * Remove the objects of deleted artifacts whose retention has passed
+   */
+  private async purgeDeletedArtifacts(): Promise<void> {
+    const now = Date.now();
+    const expired = (await this.artifactStore.list()).filter(
+      (artifact) => artifact.deletedAt && artifact.purgeAt !== undefined && artifact.purgeAt <= now
+    );
+
+    for (const artifact of expired) {
+      try {
+        await this.storage.deleteObject(artifact.s3Key);
+        await this.artifactStore.delete(artifact.uploadId);
+        await this.audit('purge', artifact, 'system');
+      } catch (error) {
+        console.error(`Error purging artifact ${artifact.uploadId}:`, error);
+      }
+    }
+
+    if (expired.length > 0) {
+      console.log(`Purged ${expired.length} deleted artifacts`);
+    }
+  }
+
+  private audit(action: AuditAction, artifact: Artifact, principal: string): Promise<void> {
+    return this.auditLog.record({
+      at: Date.now(),
+      action,
+      principal,
+      uploadId: artifact.uploadId,
+      s3Key: artifact.s3Key,
+      fileName: artifact.fileName,
+      owner: artifact.owner,
+    });
+  }
+}
+
+/**
+ * SSE-C keys are dropped once an upload completes, so the API can't read
+ * those objects; only whoever holds the key can, straight from storage
+ */
+function assertDownloadable(artifact: Artifact): void {
+  if (artifact.encryption?.mode === 'SSE-C') {
+    throw new EncryptionNotAllowedError(
+      'SSE-C encrypted uploads can only be downloaded from storage with their customer key'
+    );
+  }
+}
+
+function matches(artifact: Artifact, query: ListArtifactsQuery): boolean {
+  if (query.owner !== undefined && artifact.owner !== query.owner) return false;
+  if (query.namePrefix && !artifact.fileName.startsWith(query.namePrefix)) return false;
+  if (query.completedAfter !== undefined && artifact.completedAt < query.completedAfter) return false;
+  if (query.completedBefore !== undefined && artifact.completedAt >= query.completedBefore) return false;
+
+  return Object.entries(query.metadata ?? {}).every(([key, value]) => artifact.metadata?.[key] === value);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(encoded: string, query: ListArtifactsQuery): Cursor {
+  let cursor: Cursor;
+
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    cursor?.sort !== query.sort ||
+    cursor.order !== query.order ||
+    typeof cursor.uploadId !== 'string' ||
+    (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  return cursor;
+}
@@ -0,0 +1,61 @@
+import { config } from '../config/index.js';
+import { EncryptionNotAllowedError } from '../errors/upload.errors.js';
+import type { EncryptionMode, UploadEncryption } from '../types/upload.js';
+
+const MODES: EncryptionMode[] = ['none', 'SSE-S3', 'SSE-KMS', 'SSE-C'];
+
+/**
+ * Server-side encryption policy: which modes and KMS keys uploads may use,
+ * and what encryption uploads that don't ask for any get.
+ */
+export class EncryptionService {
+  private allowedModes: EncryptionMode[];
+  private allowedKmsKeys: string[];
+
+  constructor() {
+    this.allowedModes = list(config.ENCRYPTION_MODES_ALLOWED).map(parseMode);
+    this.allowedKmsKeys = list(config.ENCRYPTION_KMS_KEYS_ALLOWED);
+  }
+
+  /**
+   * The encryption an upload gets, the default when none was requested.
+   * Throws if the allowlists don't permit it.
+   */
+  resolve(requested?: UploadEncryption): UploadEncryption {
+    const encryption: UploadEncryption = requested ?? {
+      mode: config.ENCRYPTION_DEFAULT_MODE,
+      kmsKeyId: config.ENCRYPTION_DEFAULT_MODE === 'SSE-KMS' ? config.ENCRYPTION_DEFAULT_KMS_KEY_ID : undefined,
+    };
+
+    if (!this.allowedModes.includes(encryption.mode)) {
+      throw new EncryptionNotAllowedError(`Encryption mode ${encryption.mode} is not allowed`);
+    }
+
+    if (encryption.mode === 'SSE-KMS' && this.allowedKmsKeys.length > 0) {
+      if (!encryption.kmsKeyId) {
+        throw new EncryptionNotAllowedError('SSE-KMS requires a KMS key ID');
+      }
+      if (!this.allowedKmsKeys.includes(encryption.kmsKeyId)) {
+        throw new EncryptionNotAllowedError(`KMS key ${encryption.kmsKeyId} is not allowed`);
+      }
+    }
+
+    return encryption;
+  }
+}
+
+function list(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Modes are matched case-insensitively, so `sse-kms` works too
+function parseMode(value: string): EncryptionMode {
+  const mode = MODES.find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+  if (!mode) {
+    throw new Error(`ENCRYPTION_MODES_ALLOWED entries must be one of ${MODES.join(', ')}`);
+  }
+  return mode;
+}
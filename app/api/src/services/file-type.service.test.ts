@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { config } from '../config/index.js';
+import { ContentTypeMismatchError, FileTooLargeError, FileTypeNotAllowedError } from '../errors/upload.errors.js';
+import { FileTypeService } from './file-type.service.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+const ELF = Buffer.from('\x7fELF\x02\x01\x01\x00', 'latin1');
+const EXE = Buffer.from('MZ\x90\x00\x03\x00\x00\x00', 'latin1');
+const TEXT = Buffer.from('hello, world\n');
+
+describe('FileTypeService', () => {
+  const settings = {
+    FILE_TYPES_ALLOWED: config.FILE_TYPES_ALLOWED,
+    FILE_TYPES_DENIED: config.FILE_TYPES_DENIED,
+    FILE_EXTENSIONS_ALLOWED: config.FILE_EXTENSIONS_ALLOWED,
+    FILE_EXTENSIONS_DENIED: config.FILE_EXTENSIONS_DENIED,
+    FILE_TYPE_MAX_SIZES: config.FILE_TYPE_MAX_SIZES,
+    FILE_TYPE_SNIFFING: config.FILE_TYPE_SNIFFING,
+  };
+
+  afterEach(() => {
+    Object.assign(config, settings);
+  });
+
+  function service(overrides: Partial<typeof settings> = {}): FileTypeService {
+    Object.assign(config, overrides);
+    return new FileTypeService();
+  }
+
+  describe('assertAllowed', () => {
+    it('lets denied types beat the allow list', () => {
+      const types = service({ FILE_TYPES_ALLOWED: 'image/*', FILE_TYPES_DENIED: 'image/svg+xml' });
+
+      expect(() => types.assertAllowed('a.png', 'image/png', 10)).not.toThrow();
+      expect(() => types.assertAllowed('a.svg', 'image/svg+xml', 10)).toThrow(FileTypeNotAllowedError);
+      expect(() => types.assertAllowed('a.pdf', 'application/pdf', 10)).toThrow(FileTypeNotAllowedError);
+    });
+
+    it('ignores case and parameters of the declared type', () => {
+      const types = service({ FILE_TYPES_DENIED: 'text/html' });
+
+      expect(() => types.assertAllowed('a.html', 'Text/HTML; charset=utf-8', 10)).toThrow(FileTypeNotAllowedError);
+    });
+
+    it('checks extensions, with denied ones beating the allow list', () => {
+      const types = service({ FILE_EXTENSIONS_ALLOWED: 'tar.gz,.zip', FILE_EXTENSIONS_DENIED: '.evil.zip' });
+
+      expect(() => types.assertAllowed('Build.TAR.GZ', 'application/gzip', 10)).not.toThrow();
+      expect(() => types.assertAllowed('build.tar', 'application/x-tar', 10)).toThrow(FileTypeNotAllowedError);
+      expect(() => types.assertAllowed('a.evil.zip', 'application/zip', 10)).toThrow(FileTypeNotAllowedError);
+    });
+
+    it('limits sizes per type, then per family', () => {
+      const types = service({ FILE_TYPE_MAX_SIZES: 'image/*:100,image/gif:10' });
+
+      expect(() => types.assertAllowed('a.png', 'image/png', 100)).not.toThrow();
+      expect(() => types.assertAllowed('a.png', 'image/png', 101)).toThrow(FileTooLargeError);
+      expect(() => types.assertAllowed('a.gif', 'image/gif', 11)).toThrow(FileTooLargeError);
+      expect(() => types.assertAllowed('a.pdf', 'application/pdf', 1000)).not.toThrow();
+    });
+  });
+
+  describe('assertContentMatches', () => {
+    it('rejects a declared PNG that is not a PNG', () => {
+      const types = service();
+
+      expect(() => types.assertContentMatches('image/png', PNG)).not.toThrow();
+      expect(() => types.assertContentMatches('image/png', TEXT)).toThrow(ContentTypeMismatchError);
+      expect(() => types.assertContentMatches('image/png', ELF)).toThrow('Content is application/x-executable');
+    });
+
+    it('rejects untyped uploads carrying a format that is not allowed', () => {
+      const types = service({ FILE_TYPES_DENIED: 'application/x-executable,application/x-msdownload' });
+
+      expect(() => types.assertContentMatches('application/octet-stream', ELF)).toThrow(FileTypeNotAllowedError);
+      expect(() => types.assertContentMatches('application/octet-stream', EXE)).toThrow(FileTypeNotAllowedError);
+      expect(() => types.assertContentMatches('application/octet-stream', TEXT)).not.toThrow();
+    });
+
+    it('rejects types without a signature whose content has one', () => {
+      const types = service();
+
+      expect(() => types.assertContentMatches('text/plain', EXE)).toThrow(ContentTypeMismatchError);
+      expect(() => types.assertContentMatches('text/plain', TEXT)).not.toThrow();
+    });
+
+    it('checks nothing with sniffing turned off', () => {
+      const types = service({ FILE_TYPE_SNIFFING: false });
+
+      expect(() => types.assertContentMatches('image/png', ELF)).not.toThrow();
+    });
+  });
+});
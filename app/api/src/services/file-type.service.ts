@@ -0,0 +1,148 @@
+import { config } from '../config/index.js';
+import {
+  ContentTypeMismatchError,
+  FileTooLargeError,
+  FileTypeNotAllowedError,
+} from '../errors/upload.errors.js';
+import { detectFileType, hasSignature } from '../utils/file-signature.js';
+import type { FileTypePolicy } from '../types/upload.js';
+
+// Declares nothing about the content, so there is nothing to check it against
+const UNTYPED = 'application/octet-stream';
+
+/**
+ * File type policy: which MIME types and extensions may be uploaded, how large
+ * each type may be, and whether content really is of its declared type.
+ *
+ * Types are checked when an upload is initiated, content once its first bytes
+ * arrive.
+ */
+export class FileTypeService {
+  private policy: FileTypePolicy;
+
+  constructor() {
+    this.policy = {
+      allowedTypes: list(config.FILE_TYPES_ALLOWED).map(normalizeType),
+      deniedTypes: list(config.FILE_TYPES_DENIED).map(normalizeType),
+      allowedExtensions: list(config.FILE_EXTENSIONS_ALLOWED).map(normalizeExtension),
+      deniedExtensions: list(config.FILE_EXTENSIONS_DENIED).map(normalizeExtension),
+      maxFileSize: config.MAX_FILE_SIZE,
+      maxSizes: parseMaxSizes(config.FILE_TYPE_MAX_SIZES),
+      contentSniffing: config.FILE_TYPE_SNIFFING,
+    };
+  }
+
+  getPolicy(): FileTypePolicy {
+    return this.policy;
+  }
+
+  /**
+   * Throw if the policy doesn't allow a file of this name, type and size
+   */
+  assertAllowed(fileName: string, fileType: string, fileSize: number): void {
+    const type = normalizeType(fileType);
+
+    if (!this.isTypeAllowed(type)) {
+      throw new FileTypeNotAllowedError(`File type ${type} is not allowed`);
+    }
+
+    const name = fileName.toLowerCase();
+    const { allowedExtensions, deniedExtensions } = this.policy;
+
+    if (
+      deniedExtensions.some((extension) => name.endsWith(extension)) ||
+      (allowedExtensions.length > 0 && !allowedExtensions.some((extension) => name.endsWith(extension)))
+    ) {
+      throw new FileTypeNotAllowedError(`File extension of ${fileName} is not allowed`);
+    }
+
+    const maxSize = this.maxSizeFor(type);
+
+    if (fileSize > maxSize) {
+      throw new FileTooLargeError(`Files of type ${type} may be at most ${maxSize} bytes, got ${fileSize}`);
+    }
+  }
+
+  /**
+   * Throw if the first bytes of a file show it isn't of its declared type.
+   *
+   * Types with a known signature must start with it. Any other type must not
+   * start with the signature of a different format, and whatever format is
+   * recognised must itself be allowed.
+   */
+  assertContentMatches(fileType: string, head: Buffer): void {
+    if (!this.policy.contentSniffing) return;
+
+    const type = normalizeType(fileType);
+    const detected = detectFileType(head);
+
+    // The declared type was allowed at initiation; anything else is judged by
+    // the canonical type of its format
+    const recognised = detected && (detected.includes(type) ? type : detected[0]);
+
+    if (recognised && !this.isTypeAllowed(recognised)) {
+      throw new FileTypeNotAllowedError(`Content is ${recognised}, which is not allowed`);
+    }
+
+    if (type === UNTYPED) return;
+
+    if (hasSignature(type) ? !detected?.includes(type) : detected) {
+      throw new ContentTypeMismatchError(
+        detected ? `Content is ${detected[0]}, not the declared ${type}` : `Content is not ${type}`
+      );
+    }
+  }
+
+  private isTypeAllowed(type: string): boolean {
+    const { allowedTypes, deniedTypes } = this.policy;
+
+    if (deniedTypes.some((pattern) => matchesType(pattern, type))) return false;
+    return allowedTypes.length === 0 || allowedTypes.some((pattern) => matchesType(pattern, type));
+  }
+
+  /**
+   * The exact type's limit, else its family's, capped at MAX_FILE_SIZE
+   */
+  private maxSizeFor(type: string): number {
+    const { maxSizes, maxFileSize } = this.policy;
+    const limit = maxSizes[type] ?? maxSizes[`${type.split('/')[0]}/*`];
+
+    return limit === undefined ? maxFileSize : Math.min(limit, maxFileSize);
+  }
+}
+
+function list(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Lowercase, without parameters such as `; charset=utf-8`
+function normalizeType(type: string): string {
+  return type.split(';')[0].trim().toLowerCase();
+}
+
+// `.tar.gz`, `tar.gz` and `TAR.GZ` all become `.tar.gz`
+function normalizeExtension(extension: string): string {
+  return `.${extension.toLowerCase().replace(/^\.+/, '')}`;
+}
+
+function matchesType(pattern: string, type: string): boolean {
+  return pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+}
+
+function parseMaxSizes(value: string): Record<string, number> {
+  const sizes: Record<string, number> = {};
+
+  for (const entry of list(value)) {
+    const separator = entry.lastIndexOf(':');
+    const size = Number(entry.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(size) || size <= 0) {
+      throw new Error('FILE_TYPE_MAX_SIZES entries must have the form type:bytes');
+    }
+    sizes[normalizeType(entry.slice(0, separator))] = size;
+  }
+
+  return sizes;
+}
@@ -0,0 +1,47 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { InvalidChunkError, NotFoundError } from '../errors/upload.errors.js';
+import { sha256Base64 } from '../utils/checksum.js';
+import { FsStorageService } from './fs-storage.service.js';
+
+describe('FsStorageService', () => {
+  let directory: string;
+  let storage: FsStorageService;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'fs-storage-'));
+    storage = new FsStorageService(directory);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reports unknown multipart uploads as not found', async () => {
+    const uploadId = await storage.initiateMultipartUpload('uploads/a.bin', 'application/octet-stream');
+
+    await expect(storage.listParts('uploads/a.bin', 'missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(storage.listParts('uploads/b.bin', uploadId)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('rejects parts whose length differs from the declared one', async () => {
+    const uploadId = await storage.initiateMultipartUpload('uploads/a.bin', 'application/octet-stream');
+    const part = Buffer.from('hello');
+
+    const upload = storage.uploadPart('uploads/a.bin', uploadId, 1, Readable.from([part]), 4, sha256Base64(part));
+
+    await expect(upload).rejects.toBeInstanceOf(InvalidChunkError);
+    await expect(storage.listParts('uploads/a.bin', uploadId)).resolves.toEqual([]);
+  });
+
+  it('refuses to complete with parts it does not have', async () => {
+    const uploadId = await storage.initiateMultipartUpload('uploads/a.bin', 'application/octet-stream');
+
+    const complete = storage.completeMultipartUpload('uploads/a.bin', uploadId, [{ partNumber: 1, etag: '"x"' }]);
+
+    await expect(complete).rejects.toBeInstanceOf(InvalidChunkError);
+  });
+});
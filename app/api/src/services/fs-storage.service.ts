@@ -0,0 +1,382 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Writable, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { pathToFileURL } from 'url';
+import { DigestStream, PartVerifierStream } from '../utils/stream.js';
+import { EncryptionNotAllowedError, InvalidChunkError, NotFoundError } from '../errors/upload.errors.js';
+import type {
+  ByteRange,
+  ObjectProperties,
+  PendingMultipartUpload,
+  StoredObjectInfo,
+  UploadEncryption,
+  UploadedPart,
+} from '../types/upload.js';
+import type { StorageProvider } from './storage.provider.js';
+
+interface StagedUpload {
+  key: string;
+  contentType: string;
+  metadata?: Record<string, string>;
+  properties?: ObjectProperties;
+  createdAt: number;
+}
+
+/**
+ * Local filesystem storage for development and integration testing.
+ *
+ * Layout under the root directory:
+ * - `staging/<uploadId>/`: `upload.json` plus one `<partNumber>.part` file per
+ *   part, next to a `<partNumber>.part.json` with its ETag and checksum
+ * - `objects/<key>`: assembled objects
+ * - `metadata/<key>.json`: content type, user metadata and properties of each object
+ */
+export class FsStorageService implements StorageProvider {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Initialize a multipart upload
+   *
+   * Files are stored as they are, so no server-side encryption is available.
+   * Properties such as the storage class are only recorded.
+   */
+  async initiateMultipartUpload(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+    encryption?: UploadEncryption,
+    properties?: ObjectProperties
+  ): Promise<string> {
+    if (encryption && encryption.mode !== 'none') {
+      throw new EncryptionNotAllowedError(`The fs storage driver does not support ${encryption.mode} encryption`);
+    }
+
+    const uploadId = randomUUID();
+    const stagingDir = this.stagingDir(uploadId);
+    const staged: StagedUpload = { key, contentType, metadata, properties, createdAt: Date.now() };
+
+    await fs.mkdir(stagingDir, { recursive: true });
+    await fs.writeFile(path.join(stagingDir, 'upload.json'), JSON.stringify(staged));
+
+    return uploadId;
+  }
+
+  /**
+   * Upload a single part
+   *
+   * The part is streamed to a temporary file and only moved into place once
+   * its length and checksum have been verified.
+   */
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    contentLength: number,
+    checksum: string
+  ): Promise<string> {
+    await this.readStaged(key, uploadId);
+
+    const partFile = this.partFile(uploadId, partNumber);
+    const tmpFile = `${partFile}.${randomUUID()}.tmp`;
+    const verifier = new PartVerifierStream(partNumber, contentLength, checksum);
+    const md5 = new DigestStream('md5');
+
+    try {
+      await pipeline(body, verifier, md5, createWriteStream(tmpFile));
+    } catch (error) {
+      await fs.rm(tmpFile, { force: true });
+      throw error;
+    }
+
+    // A replaced part's digests go first, so they never describe other bytes
+    const digestFile = this.partDigestFile(uploadId, partNumber);
+    await fs.rm(digestFile, { force: true });
+    await fs.rename(tmpFile, partFile);
+
+    const part: UploadedPart = { partNumber, etag: `"${md5.digest('hex')}"`, checksum, size: contentLength };
+    await fs.writeFile(digestFile, JSON.stringify(part));
+
+    return part.etag;
+  }
+
+  /**
+   * Complete multipart upload by concatenating the parts into the object
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<string> {
+    const staged = await this.readStaged(key, uploadId);
+    const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const objectFile = this.objectFile(key);
+    const tmpFile = `${objectFile}.${uploadId}.tmp`;
+
+    const partDigests: Buffer[] = [];
+
+    await fs.mkdir(path.dirname(objectFile), { recursive: true });
+
+    try {
+      for (const [index, part] of sortedParts.entries()) {
+        const partFile = this.partFile(uploadId, part.partNumber);
+        const exists = await fs.stat(partFile).then(() => true, () => false);
+
+        if (!exists) {
+          throw new InvalidChunkError(`Failed to complete multipart upload: part ${part.partNumber} not found`);
+        }
+
+        // Append each part to the object, re-checking its ETag on the way
+        const md5 = new DigestStream('md5');
+        await pipeline(
+          createReadStream(partFile),
+          md5,
+          createWriteStream(tmpFile, { flags: index === 0 ? 'w' : 'a' })
+        );
+
+        const partDigest = md5.digest('hex');
+        if (`"${partDigest}"` !== part.etag) {
+          throw new InvalidChunkError(`Failed to complete multipart upload: ETag mismatch for part ${part.partNumber}`);
+        }
+        partDigests.push(Buffer.from(partDigest, 'hex'));
+      }
+    } catch (error) {
+      await fs.rm(tmpFile, { force: true });
+      throw error;
+    }
+
+    await fs.rename(tmpFile, objectFile);
+
+    const metadataFile = this.metadataFile(key);
+    await fs.mkdir(path.dirname(metadataFile), { recursive: true });
+    await fs.writeFile(
+      metadataFile,
+      JSON.stringify({
+        contentType: staged.contentType,
+        metadata: staged.metadata,
+        properties: staged.properties,
+        // Same format as S3's multipart ETag: MD5 of the part MD5s, then -<partCount>
+        etag: `"${createHash('md5').update(Buffer.concat(partDigests)).digest('hex')}-${partDigests.length}"`,
+      })
+    );
+
+    await fs.rm(this.stagingDir(uploadId), { recursive: true, force: true });
+
+    return this.getUrl(key);
+  }
+
+  /**
+   * List the parts staged for a multipart upload
+   *
+   * ETags and checksums are recorded as parts are written; a part without a
+   * record is re-read to compute them.
+   */
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    await this.readStaged(key, uploadId);
+
+    const files = await fs.readdir(this.stagingDir(uploadId));
+    const partNumbers = files
+      .map((file) => /^(\d+)\.part$/.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map((match) => Number(match[1]))
+      .sort((a, b) => a - b);
+
+    const parts: UploadedPart[] = [];
+
+    for (const partNumber of partNumbers) {
+      parts.push(await this.readPart(uploadId, partNumber));
+    }
+
+    return parts;
+  }
+
+  /**
+   * List staged multipart uploads whose key starts with `prefix`
+   */
+  async listMultipartUploads(prefix: string): Promise<PendingMultipartUpload[]> {
+    let uploadIds: string[];
+
+    try {
+      uploadIds = await fs.readdir(path.join(this.rootDir, 'staging'));
+    } catch {
+      return [];
+    }
+
+    const uploads: PendingMultipartUpload[] = [];
+
+    for (const uploadId of uploadIds) {
+      let staged: StagedUpload;
+
+      try {
+        staged = JSON.parse(await fs.readFile(path.join(this.stagingDir(uploadId), 'upload.json'), 'utf8'));
+      } catch {
+        continue; // Not a staged upload (or still being created)
+      }
+
+      if (staged.key.startsWith(prefix)) {
+        uploads.push({ key: staged.key, uploadId, initiatedAt: staged.createdAt });
+      }
+    }
+
+    return uploads;
+  }
+
+  /**
+   * Abort multipart upload
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.readStaged(key, uploadId);
+    await fs.rm(this.stagingDir(uploadId), { recursive: true, force: true });
+  }
+
+  /**
+   * Get object size, ETag and modification time
+   */
+  async headObject(key: string): Promise<StoredObjectInfo> {
+    let stats;
+
+    try {
+      stats = await fs.stat(this.objectFile(key));
+    } catch {
+      throw new NotFoundError(`Object ${key} not found`);
+    }
+
+    const stored = await fs
+      .readFile(this.metadataFile(key), 'utf8')
+      .then((data) => JSON.parse(data) as { etag?: string }, () => ({ etag: undefined }));
+
+    return {
+      size: stats.size,
+      // Objects written before ETags were recorded fall back to size and mtime
+      etag: stored.etag ?? `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+      lastModified: stats.mtimeMs,
+    };
+  }
+
+  /**
+   * Stream an object, optionally a byte range of it
+   */
+  async getObject(key: string, range?: ByteRange): Promise<Readable> {
+    const objectFile = this.objectFile(key);
+
+    try {
+      await fs.access(objectFile);
+    } catch {
+      throw new NotFoundError(`Object ${key} not found`);
+    }
+
+    return createReadStream(objectFile, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  /**
+   * Copy an object and its metadata
+   */
+  async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+    const destinationFile = this.objectFile(destinationKey);
+    await fs.mkdir(path.dirname(destinationFile), { recursive: true });
+
+    try {
+      await fs.copyFile(this.objectFile(sourceKey), destinationFile);
+    } catch {
+      throw new NotFoundError(`Object ${sourceKey} not found`);
+    }
+
+    const metadataFile = this.metadataFile(destinationKey);
+    await fs.mkdir(path.dirname(metadataFile), { recursive: true });
+    await fs.copyFile(this.metadataFile(sourceKey), metadataFile).catch(() => {});
+  }
+
+  /**
+   * Delete an object and its metadata
+   */
+  async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.objectFile(key), { force: true });
+    await fs.rm(this.metadataFile(key), { force: true });
+  }
+
+  /**
+   * Generate file URL
+   */
+  getUrl(key: string): string {
+    return pathToFileURL(this.objectFile(key)).href;
+  }
+
+  private async readStaged(key: string, uploadId: string): Promise<StagedUpload> {
+    let staged: StagedUpload;
+
+    try {
+      staged = JSON.parse(
+        await fs.readFile(path.join(this.stagingDir(uploadId), 'upload.json'), 'utf8')
+      );
+    } catch {
+      throw new NotFoundError(`Multipart upload ${uploadId} not found`);
+    }
+
+    if (staged.key !== key) {
+      throw new NotFoundError(`Multipart upload ${uploadId} does not belong to ${key}`);
+    }
+
+    return staged;
+  }
+
+  private async readPart(uploadId: string, partNumber: number): Promise<UploadedPart> {
+    try {
+      return JSON.parse(await fs.readFile(this.partDigestFile(uploadId, partNumber), 'utf8'));
+    } catch {
+      // Not recorded yet, or staged before digests were recorded
+    }
+
+    const md5 = new DigestStream('md5');
+    const sha256 = new DigestStream('sha256');
+    await pipeline(createReadStream(this.partFile(uploadId, partNumber)), md5, sha256, new Writable({
+      write: (_chunk, _encoding, callback) => callback(),
+    }));
+
+    return {
+      partNumber,
+      etag: `"${md5.digest('hex')}"`,
+      checksum: sha256.digest('base64'),
+      size: sha256.bytes,
+    };
+  }
+
+  private stagingDir(uploadId: string): string {
+    return this.resolve('staging', uploadId);
+  }
+
+  private partFile(uploadId: string, partNumber: number): string {
+    return path.join(this.stagingDir(uploadId), `${partNumber}.part`);
+  }
+
+  private partDigestFile(uploadId: string, partNumber: number): string {
+    return `${this.partFile(uploadId, partNumber)}.json`;
+  }
+
+  private objectFile(key: string): string {
+    return this.resolve('objects', key);
+  }
+
+  private metadataFile(key: string): string {
+    return `${this.resolve('metadata', key)}.json`;
+  }
+
+  /**
+   * Resolve a path below the root, refusing keys that would escape it
+   */
+  private resolve(area: string, relativePath: string): string {
+    const areaDir = path.join(this.rootDir, area);
+    const resolved = path.resolve(areaDir, relativePath);
+
+    if (!resolved.startsWith(`${areaDir}${path.sep}`)) {
+      throw new Error(`Invalid storage path: ${relativePath}`);
+    }
+
+    return resolved;
+  }
+}
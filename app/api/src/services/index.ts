@@ -0,0 +1,27 @@
+import { createStorageProvider } from './storage.provider.js';
+import { UploadService } from './upload.service.js';
+import { SweeperService } from './sweeper.service.js';
+import { createSessionStore } from '../stores/session.store.js';
+import { createContentIndex } from '../stores/content-index.store.js';
+import { createArtifactStore } from '../stores/artifact.store.js';
+import { createAuditLog } from '../stores/audit.log.js';
+import { ArtifactService } from './artifact.service.js';
+import { WebhookService } from './webhook.service.js';
+import { MetricsService } from './metrics.service.js';
+
+export const metricsService = new MetricsService();
+
+// Shared by every route plugin so they all see the same sessions
+const sessionStore = createSessionStore();
+const storage = metricsService.instrumentStorage(createStorageProvider());
+const contentIndex = createContentIndex();
+const artifactStore = createArtifactStore();
+const auditLog = createAuditLog();
+
+export const uploadService = new UploadService(sessionStore, storage, contentIndex, artifactStore);
+export const artifactService = new ArtifactService(artifactStore, storage, contentIndex, auditLog);
+export const sweeperService = new SweeperService(sessionStore, storage);
+export const webhookService = new WebhookService();
+
+webhookService.subscribeTo(uploadService);
+metricsService.subscribeTo(uploadService);
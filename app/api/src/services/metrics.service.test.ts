@@ -0,0 +1,91 @@
+import { EventEmitter } from 'events';
+import type { MetricValue } from 'prom-client';
+import { describe, expect, it, vi } from 'vitest';
+import { NotFoundError, StorageUnavailableError } from '../errors/upload.errors.js';
+import type { UploadSession } from '../types/upload.js';
+import { MetricsService } from './metrics.service.js';
+import type { StorageProvider } from './storage.provider.js';
+import type { UploadService } from './upload.service.js';
+
+// Current value of a series with the given labels, 0 when unset. Histograms
+// are read through their `_count` series.
+async function valueOf(metrics: MetricsService, name: string, labels: Record<string, string>): Promise<number> {
+  const { values } = await metrics.registry.getSingleMetric(name.replace(/_count$/, ''))!.get();
+  const series = values.find(
+    (v: MetricValue<string> & { metricName?: string }) =>
+      (v.metricName ?? name) === name && Object.entries(labels).every(([key, value]) => v.labels[key] === value)
+  );
+  return series?.value ?? 0;
+}
+
+function storage(overrides: Partial<StorageProvider> = {}): StorageProvider {
+  return {
+    headObject: vi.fn(async () => ({ size: 1, etag: '"x"', lastModified: 0 })),
+    deleteObject: vi.fn(async () => {}),
+    getUrl: (key: string) => `file:///${key}`,
+    ...overrides,
+  } as unknown as StorageProvider;
+}
+
+describe('MetricsService', () => {
+  describe('instrumentStorage', () => {
+    it('counts failed calls by command', async () => {
+      const metrics = new MetricsService();
+      const instrumented = metrics.instrumentStorage(
+        storage({ deleteObject: vi.fn().mockRejectedValue(new StorageUnavailableError('S3 is down')) })
+      );
+
+      await instrumented.headObject('a');
+      await expect(instrumented.deleteObject('a')).rejects.toThrow(StorageUnavailableError);
+
+      expect(await valueOf(metrics, 'storage_errors_total', { command: 'deleteObject' })).toBe(1);
+      expect(await valueOf(metrics, 'storage_errors_total', { command: 'headObject' })).toBe(0);
+      expect(await valueOf(metrics, 'storage_request_duration_seconds_count', { command: 'deleteObject' })).toBe(1);
+    });
+
+    it('does not count missing objects as errors', async () => {
+      const metrics = new MetricsService();
+      const instrumented = metrics.instrumentStorage(
+        storage({ headObject: vi.fn().mockRejectedValue(new NotFoundError('No such object')) })
+      );
+
+      await expect(instrumented.headObject('a')).rejects.toThrow(NotFoundError);
+
+      expect(await valueOf(metrics, 'storage_errors_total', { command: 'headObject' })).toBe(0);
+    });
+
+    it('keeps optional methods only where the provider has them', async () => {
+      const metrics = new MetricsService();
+      const getDownloadUrl = vi.fn(async () => 'https://example.com/signed');
+
+      const presigning = metrics.instrumentStorage(storage({ getDownloadUrl }));
+      const plain = metrics.instrumentStorage(storage());
+
+      expect(await presigning.getDownloadUrl!('a', { fileName: 'a', contentType: 'text/plain', expiresIn: 60 })).toBe(
+        'https://example.com/signed'
+      );
+      expect(presigning.getUploadPartUrl).toBeUndefined();
+      expect(plain.getDownloadUrl).toBeUndefined();
+    });
+  });
+
+  describe('subscribeTo', () => {
+    it('counts session events and part sizes', async () => {
+      const metrics = new MetricsService();
+      const uploads = Object.assign(new EventEmitter(), { countActiveSessions: async () => 2 });
+      const session = { uploadId: 'u1', uploadMode: 'proxy' } as UploadSession;
+      metrics.subscribeTo(uploads as unknown as UploadService);
+
+      uploads.emit('upload.initiated', session);
+      uploads.emit('part.uploaded', session, { partNumber: 1, etag: '"a"', size: 6 * 1024 * 1024 });
+      uploads.emit('part.uploaded', session, { partNumber: 2, etag: '"b"' });
+      uploads.emit('upload.completed', session, {});
+
+      expect(await valueOf(metrics, 'upload_sessions_total', { event: 'initiated' })).toBe(1);
+      expect(await valueOf(metrics, 'upload_sessions_total', { event: 'completed' })).toBe(1);
+      expect(await valueOf(metrics, 'upload_sessions_total', { event: 'failed' })).toBe(0);
+      expect(await valueOf(metrics, 'upload_bytes_received_total', { upload_mode: 'proxy' })).toBe(6 * 1024 * 1024);
+      expect(await valueOf(metrics, 'upload_sessions_active', {})).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { Readable } from 'stream';
+import { config } from '../config/index.js';
+import { NotFoundError } from '../errors/upload.errors.js';
+import type { StorageProvider } from './storage.provider.js';
+import type { UploadService } from './upload.service.js';
+import type {
+  ByteRange,
+  ObjectProperties,
+  PendingMultipartUpload,
+  StoredObjectInfo,
+  UploadEncryption,
+  UploadedPart,
+} from '../types/upload.js';
+
+const MiB = 1024 * 1024;
+
+/**
+ * Prometheus metrics for uploads and the storage backend.
+ *
+ * Nothing is measured in route handlers: storage calls are timed by wrapping
+ * the provider, and session activity is counted from UploadService events.
+ */
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private sessions = new Counter({
+    name: 'upload_sessions_total',
+    help: 'Upload sessions by lifecycle event',
+    labelNames: ['event'] as const,
+    registers: [this.registry],
+  });
+
+  private bytesReceived = new Counter({
+    name: 'upload_bytes_received_total',
+    help: 'Bytes of uploaded parts; direct-mode parts go straight to storage and are counted as reported',
+    labelNames: ['upload_mode'] as const,
+    registers: [this.registry],
+  });
+
+  private chunkSize = new Histogram({
+    name: 'upload_chunk_size_bytes',
+    help: 'Size of uploaded parts',
+    labelNames: ['upload_mode'] as const,
+    buckets: [5, 8, 16, 32, 64, 128, 256, 512].map((n) => n * MiB),
+    registers: [this.registry],
+  });
+
+  private storageDuration = new Histogram({
+    name: 'storage_request_duration_seconds',
+    help: 'Latency of storage provider calls, including uploadPart',
+    labelNames: ['driver', 'command'] as const,
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+    registers: [this.registry],
+  });
+
+  private storageErrors = new Counter({
+    name: 'storage_errors_total',
+    help: 'Failed storage provider calls by command',
+    labelNames: ['driver', 'command'] as const,
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Count session activity and part sizes as the upload service reports them,
+   * and sample the number of active sessions on every scrape
+   */
+  subscribeTo(uploadService: UploadService): void {
+    uploadService.on('upload.initiated', () => this.sessions.inc({ event: 'initiated' }));
+    uploadService.on('upload.completed', () => this.sessions.inc({ event: 'completed' }));
+    uploadService.on('upload.failed', () => this.sessions.inc({ event: 'failed' }));
+    uploadService.on('upload.cancelled', () => this.sessions.inc({ event: 'cancelled' }));
+    uploadService.on('upload.expired', () => this.sessions.inc({ event: 'expired' }));
+    uploadService.on('upload.quarantined', () => this.sessions.inc({ event: 'quarantined' }));
+
+    uploadService.on('part.uploaded', (session, part) => {
+      if (part.size === undefined) return;
+      this.bytesReceived.inc({ upload_mode: session.uploadMode }, part.size);
+      this.chunkSize.observe({ upload_mode: session.uploadMode }, part.size);
+    });
+
+    new Gauge({
+      name: 'upload_sessions_active',
+      help: 'Sessions that are pending or uploading and not yet expired',
+      registers: [this.registry],
+      async collect() {
+        this.set(await uploadService.countActiveSessions());
+      },
+    });
+  }
+
+  /**
+   * Wrap a storage provider so every call is timed and failures are counted
+   */
+  instrumentStorage(storage: StorageProvider): StorageProvider {
+    return new InstrumentedStorageProvider(storage, config.STORAGE_DRIVER, this.storageDuration, this.storageErrors);
+  }
+
+  /**
+   * Current values in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+}
+
+type StorageLabels = 'driver' | 'command';
+
+/**
+ * StorageProvider decorator recording the latency and failures of each call
+ */
+class InstrumentedStorageProvider implements StorageProvider {
+  getUploadPartUrl?: StorageProvider['getUploadPartUrl'];
+  getDownloadUrl?: StorageProvider['getDownloadUrl'];
+
+  constructor(
+    private inner: StorageProvider,
+    private driver: string,
+    private duration: Histogram<StorageLabels>,
+    private errors: Counter<StorageLabels>
+  ) {
+    // Optional capabilities must stay undefined when the inner provider lacks them
+    if (inner.getUploadPartUrl) {
+      this.getUploadPartUrl = (...args) => this.observe('getUploadPartUrl', () => inner.getUploadPartUrl!(...args));
+    }
+    if (inner.getDownloadUrl) {
+      this.getDownloadUrl = (...args) => this.observe('getDownloadUrl', () => inner.getDownloadUrl!(...args));
+    }
+  }
+
+  initiateMultipartUpload(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+    encryption?: UploadEncryption,
+    properties?: ObjectProperties
+  ): Promise<string> {
+    return this.observe('initiateMultipartUpload', () =>
+      this.inner.initiateMultipartUpload(key, contentType, metadata, encryption, properties)
+    );
+  }
+
+  uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    contentLength: number,
+    checksum: string,
+    encryption?: UploadEncryption
+  ): Promise<string> {
+    return this.observe('uploadPart', () =>
+      this.inner.uploadPart(key, uploadId, partNumber, body, contentLength, checksum, encryption)
+    );
+  }
+
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[],
+    encryption?: UploadEncryption
+  ): Promise<string> {
+    return this.observe('completeMultipartUpload', () =>
+      this.inner.completeMultipartUpload(key, uploadId, parts, encryption)
+    );
+  }
+
+  listParts(key: string, uploadId: string, encryption?: UploadEncryption): Promise<UploadedPart[]> {
+    return this.observe('listParts', () => this.inner.listParts(key, uploadId, encryption));
+  }
+
+  listMultipartUploads(prefix: string): Promise<PendingMultipartUpload[]> {
+    return this.observe('listMultipartUploads', () => this.inner.listMultipartUploads(prefix));
+  }
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    return this.observe('abortMultipartUpload', () => this.inner.abortMultipartUpload(key, uploadId));
+  }
+
+  headObject(key: string, encryption?: UploadEncryption): Promise<StoredObjectInfo> {
+    return this.observe('headObject', () => this.inner.headObject(key, encryption));
+  }
+
+  getObject(key: string, range?: ByteRange, encryption?: UploadEncryption): Promise<Readable> {
+    return this.observe('getObject', () => this.inner.getObject(key, range, encryption));
+  }
+
+  copyObject(sourceKey: string, destinationKey: string, encryption?: UploadEncryption): Promise<void> {
+    return this.observe('copyObject', () => this.inner.copyObject(sourceKey, destinationKey, encryption));
+  }
+
+  deleteObject(key: string): Promise<void> {
+    return this.observe('deleteObject', () => this.inner.deleteObject(key));
+  }
+
+  getUrl(key: string): string {
+    return this.inner.getUrl(key);
+  }
+
+  private async observe<T>(command: string, call: () => Promise<T>): Promise<T> {
+    const end = this.duration.startTimer({ driver: this.driver, command });
+
+    try {
+      return await call();
+    } catch (error) {
+      // A missing object is an answer, not a storage failure
+      if (!(error instanceof NotFoundError)) {
+        this.errors.inc({ driver: this.driver, command });
+      }
+      throw error;
+    } finally {
+      end();
+    }
+  }
+}
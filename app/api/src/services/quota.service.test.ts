@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { QuotaExceededError } from '../errors/upload.errors.js';
+import type { UploadSession } from '../types/upload.js';
+import { QuotaService } from './quota.service.js';
+
+const MB = 1024 * 1024;
+
+function session(uploadId: string, overrides: Partial<UploadSession> = {}): UploadSession {
+  const now = Date.now();
+  return {
+    uploadId,
+    fileName: `${uploadId}.bin`,
+    fileSize: 10 * MB,
+    fileType: 'application/octet-stream',
+    chunkSize: 5 * MB,
+    totalChunks: 2,
+    s3Key: `uploads/${uploadId}`,
+    s3UploadId: `s3-${uploadId}`,
+    uploadMode: 'proxy',
+    owner: 'alice',
+    uploadedParts: [],
+    status: 'uploading',
+    createdAt: now,
+    expiresAt: now + 60_000,
+    maxExpiresAt: now + 600_000,
+    ...overrides,
+  };
+}
+
+describe('QuotaService', () => {
+  const limits = {
+    QUOTA_MAX_CONCURRENT_SESSIONS: config.QUOTA_MAX_CONCURRENT_SESSIONS,
+    QUOTA_MAX_BYTES_IN_FLIGHT: config.QUOTA_MAX_BYTES_IN_FLIGHT,
+    QUOTA_MAX_BYTES_PER_DAY: config.QUOTA_MAX_BYTES_PER_DAY,
+  };
+  let quota: QuotaService;
+
+  beforeEach(() => {
+    quota = new QuotaService();
+  });
+
+  afterEach(() => {
+    Object.assign(config, limits);
+    vi.useRealTimers();
+  });
+
+  it('counts only active sessions of the principal', () => {
+    const sessions = [
+      session('a'),
+      session('b', { status: 'pending' }),
+      session('c', { status: 'completed' }),
+      session('d', { expiresAt: Date.now() - 1 }),
+      session('e', { owner: 'bob' }),
+    ];
+
+    const usage = quota.getUsage('alice', sessions);
+
+    expect(usage.concurrentSessions.used).toBe(2);
+    expect(usage.bytesInFlight.used).toBe(20 * MB);
+  });
+
+  it('rejects uploads over the concurrent session limit', () => {
+    config.QUOTA_MAX_CONCURRENT_SESSIONS = 1;
+
+    expect(() => quota.reserve('alice', 'b', MB, [session('a')])).toThrow(QuotaExceededError);
+    expect(() => quota.reserve('bob', 'b', MB, [session('a')])).not.toThrow();
+  });
+
+  it('rejects uploads over the bytes in flight limit', () => {
+    config.QUOTA_MAX_BYTES_IN_FLIGHT = 15 * MB;
+
+    expect(() => quota.reserve('alice', 'b', 6 * MB, [session('a')])).toThrow('Bytes in flight limit reached');
+    expect(() => quota.reserve('alice', 'b', 5 * MB, [session('a')])).not.toThrow();
+  });
+
+  it('counts reservations until their session is saved', () => {
+    config.QUOTA_MAX_CONCURRENT_SESSIONS = 2;
+
+    quota.reserve('alice', 'a', MB, []);
+    quota.reserve('alice', 'b', MB, []);
+    expect(() => quota.reserve('alice', 'c', MB, [])).toThrow(QuotaExceededError);
+
+    // A reservation and its session are one upload
+    quota.confirmReservation('a');
+    expect(quota.getUsage('alice', [session('a')]).concurrentSessions.used).toBe(2);
+  });
+
+  it('gives back the quota of cancelled reservations', () => {
+    config.QUOTA_MAX_CONCURRENT_SESSIONS = 1;
+    config.QUOTA_MAX_BYTES_PER_DAY = 10 * MB;
+
+    quota.reserve('alice', 'a', 10 * MB, []);
+    quota.cancelReservation('a');
+
+    expect(quota.getUsage('alice', []).bytesToday.used).toBe(0);
+    expect(() => quota.reserve('alice', 'b', 10 * MB, [])).not.toThrow();
+  });
+
+  it('keeps counting daily bytes of confirmed uploads and resets them at midnight UTC', () => {
+    config.QUOTA_MAX_BYTES_PER_DAY = 10 * MB;
+    vi.useFakeTimers({ now: Date.UTC(2024, 0, 1, 23, 0) });
+
+    quota.reserve('alice', 'a', 8 * MB, []);
+    quota.confirmReservation('a');
+
+    expect(() => quota.reserve('alice', 'b', 4 * MB, [])).toThrow('Daily upload limit reached');
+
+    vi.setSystemTime(Date.UTC(2024, 0, 2, 0, 1));
+    expect(() => quota.reserve('alice', 'b', 4 * MB, [])).not.toThrow();
+  });
+
+  it('suggests retrying once the earliest session expires', () => {
+    config.QUOTA_MAX_CONCURRENT_SESSIONS = 1;
+
+    try {
+      quota.reserve('alice', 'b', MB, [session('a', { expiresAt: Date.now() + 30_000 })]);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as QuotaExceededError).retryAfterSeconds).toBe(30);
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { config } from '../config/index.js';
+import { QuotaExceededError } from '../errors/upload.errors.js';
+import type { QuotaUsage, UploadSession } from '../types/upload.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-principal upload quotas.
+ *
+ * Concurrent sessions and bytes in flight are derived from the live sessions
+ * passed in, plus uploads reserved but not yet initiated. Bytes per day are
+ * counted here as uploads are reserved and reset at midnight UTC; the
+ * counters are kept in memory only.
+ */
+export class QuotaService {
+  private dailyBytes = new Map<string, { day: number; bytes: number }>();
+  // Uploads being initiated, by upload ID; they have no session yet
+  private reservations = new Map<string, { principalId: string; fileSize: number }>();
+
+  /**
+   * Current usage and limits of a principal. A limit of 0 means unlimited.
+   */
+  getUsage(principalId: string, sessions: UploadSession[]): QuotaUsage {
+    const active = this.activeSessions(principalId, sessions);
+    const sessionIds = new Set(active.map((s) => s.uploadId));
+    const reserved = Array.from(this.reservations)
+      .filter(([uploadId, r]) => r.principalId === principalId && !sessionIds.has(uploadId))
+      .map(([, r]) => r);
+
+    return {
+      principal: principalId,
+      concurrentSessions: {
+        used: active.length + reserved.length,
+        limit: config.QUOTA_MAX_CONCURRENT_SESSIONS,
+      },
+      bytesInFlight: {
+        used: [...active, ...reserved].reduce((total, s) => total + s.fileSize, 0),
+        limit: config.QUOTA_MAX_BYTES_IN_FLIGHT,
+      },
+      bytesToday: {
+        used: this.bytesToday(principalId),
+        limit: config.QUOTA_MAX_BYTES_PER_DAY,
+        resetsAt: startOfDay(Date.now()) + DAY_MS,
+      },
+    };
+  }
+
+  /**
+   * Reserve quota for a new upload of `fileSize` bytes, or throw a
+   * QuotaExceededError if it would exceed any of the principal's quotas.
+   *
+   * The check and the reservation happen together, so concurrent initiations
+   * can't both pass the check. Confirm the reservation once the upload's
+   * session is saved, or cancel it if initiation fails.
+   */
+  reserve(principalId: string, uploadId: string, fileSize: number, sessions: UploadSession[]): void {
+    this.assertWithinQuota(principalId, fileSize, sessions);
+    this.reservations.set(uploadId, { principalId, fileSize });
+    this.addDailyBytes(principalId, fileSize);
+  }
+
+  /**
+   * The upload's session now counts against the quota in its place
+   */
+  confirmReservation(uploadId: string): void {
+    this.reservations.delete(uploadId);
+  }
+
+  /**
+   * Give back the quota of an upload that failed to initiate
+   */
+  cancelReservation(uploadId: string): void {
+    const reservation = this.reservations.get(uploadId);
+    if (!reservation) return;
+
+    this.reservations.delete(uploadId);
+    this.addDailyBytes(reservation.principalId, -reservation.fileSize);
+  }
+
+  private assertWithinQuota(principalId: string, fileSize: number, sessions: UploadSession[]): void {
+    const usage = this.getUsage(principalId, sessions);
+    const { concurrentSessions, bytesInFlight, bytesToday } = usage;
+
+    // Active sessions free up capacity at the latest when they expire
+    const untilSessionFrees = () => {
+      const active = this.activeSessions(principalId, sessions);
+      const earliest = Math.min(...active.map((s) => s.expiresAt));
+      return secondsUntil(Number.isFinite(earliest) ? earliest : Date.now());
+    };
+
+    if (concurrentSessions.limit > 0 && concurrentSessions.used + 1 > concurrentSessions.limit) {
+      throw new QuotaExceededError(
+        `Concurrent upload limit reached (${concurrentSessions.limit} sessions)`,
+        untilSessionFrees()
+      );
+    }
+
+    if (bytesInFlight.limit > 0 && bytesInFlight.used + fileSize > bytesInFlight.limit) {
+      throw new QuotaExceededError(
+        `Bytes in flight limit reached (${bytesInFlight.used + fileSize} of ${bytesInFlight.limit} bytes)`,
+        untilSessionFrees()
+      );
+    }
+
+    if (bytesToday.limit > 0 && bytesToday.used + fileSize > bytesToday.limit) {
+      throw new QuotaExceededError(
+        `Daily upload limit reached (${bytesToday.used + fileSize} of ${bytesToday.limit} bytes)`,
+        secondsUntil(bytesToday.resetsAt)
+      );
+    }
+  }
+
+  private addDailyBytes(principalId: string, bytes: number): void {
+    const day = startOfDay(Date.now());
+    const entry = this.dailyBytes.get(principalId);
+
+    if (entry && entry.day === day) {
+      entry.bytes = Math.max(0, entry.bytes + bytes);
+    } else if (bytes > 0) {
+      this.dailyBytes.set(principalId, { day, bytes });
+    }
+  }
+
+  private bytesToday(principalId: string): number {
+    const entry = this.dailyBytes.get(principalId);
+    return entry && entry.day === startOfDay(Date.now()) ? entry.bytes : 0;
+  }
+
+  private activeSessions(principalId: string, sessions: UploadSession[]): UploadSession[] {
+    const now = Date.now();
+    return sessions.filter(
+      (s) =>
+        s.owner === principalId &&
+        (s.status === 'pending' || s.status === 'uploading') &&
+        now <= s.expiresAt
+    );
+  }
+}
+
+function startOfDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+function secondsUntil(timestamp: number): number {
+  return Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+}
@@ -0,0 +1,69 @@
+import {
+  CreateMultipartUploadCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { S3Service } from './s3.service.js';
+
+const GB = 1024 * 1024 * 1024;
+
+describe('S3Service', () => {
+  const bucketName = config.S3_BUCKET_NAME;
+  let send: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    config.S3_BUCKET_NAME = 'uploads';
+    send = vi.fn(async (command: unknown) => {
+      if (command instanceof HeadObjectCommand) {
+        return {
+          ContentLength: 6 * GB,
+          ContentType: 'video/mp4',
+          Metadata: { owner: 'alice' },
+          StorageClass: 'GLACIER_IR',
+          CacheControl: 'private, max-age=3600',
+          ContentDisposition: 'attachment; filename="talk.mp4"',
+        };
+      }
+      if (command instanceof GetObjectTaggingCommand) {
+        return { TagSet: [{ Key: 'team', Value: 'video & audio' }, { Key: 'env', Value: 'prod' }] };
+      }
+      if (command instanceof CreateMultipartUploadCommand) {
+        return { UploadId: 'copy-1' };
+      }
+      if (command instanceof UploadPartCopyCommand) {
+        return { CopyPartResult: { ETag: `"${command.input.PartNumber}"` } };
+      }
+      return {};
+    });
+    vi.spyOn(S3Client.prototype, 'send').mockImplementation(send);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    config.S3_BUCKET_NAME = bucketName;
+  });
+
+  describe('copyObject', () => {
+    it('keeps the properties of objects too large for a single copy', async () => {
+      const s3 = new S3Service();
+
+      await s3.copyObject('uploads/talk.mp4', 'quarantine/talk.mp4');
+
+      const create = send.mock.calls.find(([command]) => command instanceof CreateMultipartUploadCommand)![0];
+      expect(create.input).toMatchObject({
+        Key: 'quarantine/talk.mp4',
+        ContentType: 'video/mp4',
+        Metadata: { owner: 'alice' },
+        Tagging: 'team=video%20%26%20audio&env=prod',
+        StorageClass: 'GLACIER_IR',
+        CacheControl: 'private, max-age=3600',
+        ContentDisposition: 'attachment; filename="talk.mp4"',
+      });
+      expect(send.mock.calls.filter(([command]) => command instanceof UploadPartCopyCommand)).toHaveLength(12);
+    });
+  });
+});
@@ -4,15 +4,49 @@ import {
   UploadPartCommand,
   CompleteMultipartUploadCommand,
   AbortMultipartUploadCommand,
+  ListPartsCommand,
+  ListMultipartUploadsCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  GetObjectTaggingCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  UploadPartCopyCommand,
 } from '@aws-sdk/client-s3';
+import type { Readable } from 'stream';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { config } from '../config/index.js';
-import type { UploadedPart } from '../types/upload.js';
+import { contentDisposition } from '../utils/http.js';
+import {
+  ChecksumMismatchError,
+  InvalidChunkError,
+  NotFoundError,
+  StorageUnavailableError,
+  UploadError,
+} from '../errors/upload.errors.js';
+import type {
+  ByteRange,
+  ObjectProperties,
+  PendingMultipartUpload,
+  StoredObjectInfo,
+  UploadEncryption,
+  UploadedPart,
+} from '../types/upload.js';
+import type { StorageProvider } from './storage.provider.js';
+
+// Largest object a single CopyObject request can copy
+const MAX_COPY_OBJECT_SIZE = 5 * 1024 * 1024 * 1024;
+const COPY_PART_SIZE = 512 * 1024 * 1024;
 
-export class S3Service {
+export class S3Service implements StorageProvider {
   private s3Client: S3Client;
   private bucketName: string;
 
   constructor() {
+    if (!config.S3_BUCKET_NAME) {
+      throw new Error('S3_BUCKET_NAME is required for the s3 storage driver');
+    }
+
     this.s3Client = new S3Client({
       region: config.AWS_REGION,
       credentials: config.AWS_ACCESS_KEY_ID && config.AWS_SECRET_ACCESS_KEY
@@ -31,14 +65,24 @@ export class S3Service {
   async initiateMultipartUpload(
     key: string,
     contentType: string,
-    metadata?: Record<string, string>
+    metadata?: Record<string, string>,
+    encryption?: UploadEncryption,
+    properties: ObjectProperties = {}
   ): Promise<string> {
     try {
+      const { tags, storageClass, cacheControl, contentDisposition } = properties;
       const command = new CreateMultipartUploadCommand({
         Bucket: this.bucketName,
         Key: key,
         ContentType: contentType,
         Metadata: metadata,
+        Tagging: tags ? tagging(tags) : undefined,
+        StorageClass: storageClass,
+        CacheControl: cacheControl,
+        ContentDisposition: contentDisposition,
+        // Every part must then carry a SHA-256 checksum that S3 verifies
+        ChecksumAlgorithm: 'SHA256',
+        ...encryptionParams(encryption),
       });
 
       const response = await this.s3Client.send(command);
@@ -50,20 +94,25 @@ export class S3Service {
       return response.UploadId;
     } catch (error) {
       console.error('Error initiating multipart upload:', error);
-      throw new Error(
-        `Failed to initiate multipart upload: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw storageError(error, 'Failed to initiate multipart upload');
     }
   }
 
   /**
    * Upload a single part
+   *
+   * The body is streamed with a known length, so the SDK sends it without
+   * buffering. `checksum` is the base64 SHA-256 of the body; S3 rejects the
+   * part if the bytes it receives don't match.
    */
   async uploadPart(
     key: string,
     uploadId: string,
     partNumber: number,
-    body: Buffer
+    body: Readable,
+    contentLength: number,
+    checksum: string,
+    encryption?: UploadEncryption
   ): Promise<string> {
     try {
       const command = new UploadPartCommand({
@@ -72,6 +121,9 @@ export class S3Service {
         UploadId: uploadId,
         PartNumber: partNumber,
         Body: body,
+        ContentLength: contentLength,
+        ChecksumSHA256: checksum,
+        ...customerKeyParams(encryption),
       });
 
       const response = await this.s3Client.send(command);
@@ -83,9 +135,39 @@ export class S3Service {
       return response.ETag;
     } catch (error) {
       console.error(`Error uploading part ${partNumber}:`, error);
-      throw new Error(
-        `Failed to upload part ${partNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      if (error instanceof ChecksumMismatchError || isChecksumError(error)) {
+        throw new ChecksumMismatchError(partNumber);
+      }
+      throw storageError(error, `Failed to upload part ${partNumber}`);
+    }
+  }
+
+  /**
+   * Generate a presigned URL the client can PUT a single part to
+   *
+   * The checksum is signed into the URL, so the client must send the same
+   * value in `x-amz-checksum-sha256`.
+   */
+  async getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    checksum: string,
+    expiresIn: number
+  ): Promise<string> {
+    try {
+      const command = new UploadPartCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        ChecksumSHA256: checksum,
+      });
+
+      return await getSignedUrl(this.s3Client, command, { expiresIn });
+    } catch (error) {
+      console.error(`Error signing part ${partNumber}:`, error);
+      throw storageError(error, `Failed to sign part ${partNumber}`);
     }
   }
 
@@ -95,7 +177,8 @@ export class S3Service {
   async completeMultipartUpload(
     key: string,
     uploadId: string,
-    parts: UploadedPart[]
+    parts: UploadedPart[],
+    encryption?: UploadEncryption
   ): Promise<string> {
     try {
       // Sort parts by part number
@@ -118,8 +201,10 @@ export class S3Service {
           Parts: sortedParts.map((part) => ({
             PartNumber: part.partNumber,
             ETag: part.etag,
+            ChecksumSHA256: part.checksum,
           })),
         },
+        ...customerKeyParams(encryption),
       });
 
       const response = await this.s3Client.send(command);
@@ -134,15 +219,92 @@ export class S3Service {
       
       // Check if it's the "minimum size" error from S3
       if (error instanceof Error && error.message.includes('minimum allowed size')) {
-        throw new Error(
+        throw new InvalidChunkError(
           'Failed to complete multipart upload: One or more parts are smaller than the 5MB minimum required by S3. ' +
           'Make sure all parts except the last one are at least 5MB.'
         );
       }
       
-      throw new Error(
-        `Failed to complete multipart upload: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      throw storageError(error, 'Failed to complete multipart upload');
+    }
+  }
+
+  /**
+   * List the parts S3 has stored for a multipart upload
+   */
+  async listParts(key: string, uploadId: string, encryption?: UploadEncryption): Promise<UploadedPart[]> {
+    try {
+      const parts: UploadedPart[] = [];
+      let partNumberMarker: string | undefined;
+
+      do {
+        const response = await this.s3Client.send(
+          new ListPartsCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+            // Part checksums of SSE-C uploads are only listed with the key
+            ...customerKeyParams(encryption),
+          })
+        );
+
+        for (const part of response.Parts ?? []) {
+          if (part.PartNumber === undefined || !part.ETag) continue;
+          parts.push({
+            partNumber: part.PartNumber,
+            etag: part.ETag,
+            checksum: part.ChecksumSHA256,
+            size: part.Size,
+          });
+        }
+
+        partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    } catch (error) {
+      console.error('Error listing parts:', error);
+      throw storageError(error, 'Failed to list parts');
+    }
+  }
+
+  /**
+   * List in-progress multipart uploads under a key prefix
+   */
+  async listMultipartUploads(prefix: string): Promise<PendingMultipartUpload[]> {
+    try {
+      const uploads: PendingMultipartUpload[] = [];
+      let keyMarker: string | undefined;
+      let uploadIdMarker: string | undefined;
+
+      do {
+        const response = await this.s3Client.send(
+          new ListMultipartUploadsCommand({
+            Bucket: this.bucketName,
+            Prefix: prefix,
+            KeyMarker: keyMarker,
+            UploadIdMarker: uploadIdMarker,
+          })
+        );
+
+        for (const upload of response.Uploads ?? []) {
+          if (!upload.Key || !upload.UploadId) continue;
+          uploads.push({
+            key: upload.Key,
+            uploadId: upload.UploadId,
+            initiatedAt: upload.Initiated?.getTime() ?? 0,
+          });
+        }
+
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+      } while (keyMarker);
+
+      return uploads;
+    } catch (error) {
+      console.error('Error listing multipart uploads:', error);
+      throw storageError(error, 'Failed to list multipart uploads');
     }
   }
 
@@ -160,17 +322,288 @@ export class S3Service {
       await this.s3Client.send(command);
     } catch (error) {
       console.error('Error aborting multipart upload:', error);
-      throw new Error(
-        `Failed to abort multipart upload: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw storageError(error, 'Failed to abort multipart upload');
+    }
+  }
+
+  /**
+   * Get object size, ETag and modification time
+   */
+  async headObject(key: string, encryption?: UploadEncryption): Promise<StoredObjectInfo> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: key, ...customerKeyParams(encryption) })
+      );
+
+      return {
+        size: response.ContentLength ?? 0,
+        etag: response.ETag ?? '',
+        lastModified: response.LastModified?.getTime() ?? 0,
+      };
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new NotFoundError(`Object ${key} not found`);
+      }
+      console.error('Error reading object metadata:', error);
+      throw storageError(error, 'Failed to read object metadata');
+    }
+  }
+
+  /**
+   * Stream an object, optionally a byte range of it
+   */
+  async getObject(key: string, range?: ByteRange, encryption?: UploadEncryption): Promise<Readable> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+          ...customerKeyParams(encryption),
+        })
+      );
+
+      return response.Body as Readable;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new NotFoundError(`Object ${key} not found`);
+      }
+      console.error('Error reading object:', error);
+      throw storageError(error, 'Failed to read object');
+    }
+  }
+
+  /**
+   * Copy an object within the bucket
+   *
+   * CopyObject is limited to 5GB, so larger objects are copied part by part
+   * through a multipart upload. S3 doesn't carry encryption over to the copy,
+   * so the destination is encrypted as requested again.
+   */
+  async copyObject(sourceKey: string, destinationKey: string, encryption?: UploadEncryption): Promise<void> {
+    const copySource = `${this.bucketName}/${encodeURIComponent(sourceKey).replace(/%2F/g, '/')}`;
+    const { size } = await this.headObject(sourceKey, encryption);
+
+    if (size <= MAX_COPY_OBJECT_SIZE) {
+      try {
+        await this.s3Client.send(
+          new CopyObjectCommand({
+            Bucket: this.bucketName,
+            Key: destinationKey,
+            CopySource: copySource,
+            ...copySourceKeyParams(encryption),
+            ...encryptionParams(encryption),
+          })
+        );
+        return;
+      } catch (error) {
+        console.error('Error copying object:', error);
+        throw storageError(error, 'Failed to copy object');
+      }
+    }
+
+    let uploadId: string | undefined;
+
+    try {
+      // Unlike CopyObject, a multipart upload starts without the source's
+      // properties, so they are read and set explicitly
+      const [source, { TagSet = [] }] = await Promise.all([
+        this.s3Client.send(
+          new HeadObjectCommand({ Bucket: this.bucketName, Key: sourceKey, ...customerKeyParams(encryption) })
+        ),
+        this.s3Client.send(new GetObjectTaggingCommand({ Bucket: this.bucketName, Key: sourceKey })),
+      ]);
+      const tags = Object.fromEntries(TagSet.map((tag) => [tag.Key, tag.Value]));
+
+      ({ UploadId: uploadId } = await this.s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: destinationKey,
+          ContentType: source.ContentType,
+          Metadata: source.Metadata,
+          Tagging: TagSet.length > 0 ? tagging(tags) : undefined,
+          StorageClass: source.StorageClass,
+          CacheControl: source.CacheControl,
+          ContentDisposition: source.ContentDisposition,
+          ...encryptionParams(encryption),
+        })
+      ));
+
+      const parts: { PartNumber: number; ETag?: string }[] = [];
+
+      for (let start = 0, partNumber = 1; start < size; start += COPY_PART_SIZE, partNumber++) {
+        const end = Math.min(start + COPY_PART_SIZE, size) - 1;
+        const response = await this.s3Client.send(
+          new UploadPartCopyCommand({
+            Bucket: this.bucketName,
+            Key: destinationKey,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+            CopySource: copySource,
+            CopySourceRange: `bytes=${start}-${end}`,
+            ...copySourceKeyParams(encryption),
+            ...customerKeyParams(encryption),
+          })
+        );
+        parts.push({ PartNumber: partNumber, ETag: response.CopyPartResult?.ETag });
+      }
+
+      await this.s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: destinationKey,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts },
+          ...customerKeyParams(encryption),
+        })
       );
+    } catch (error) {
+      console.error('Error copying object:', error);
+      if (uploadId) {
+        await this.abortMultipartUpload(destinationKey, uploadId).catch(() => {});
+      }
+      throw storageError(error, 'Failed to copy object');
+    }
+  }
+
+  /**
+   * Delete an object
+   */
+  async deleteObject(key: string): Promise<void> {
+    try {
+      await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucketName, Key: key }));
+    } catch (error) {
+      console.error('Error deleting object:', error);
+      throw storageError(error, 'Failed to delete object');
+    }
+  }
+
+  /**
+   * Generate a presigned GetObject URL that downloads as an attachment
+   */
+  async getDownloadUrl(
+    key: string,
+    { fileName, contentType, expiresIn }: { fileName: string; contentType: string; expiresIn: number }
+  ): Promise<string> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ResponseContentType: contentType,
+        ResponseContentDisposition: contentDisposition(fileName),
+      });
+
+      return await getSignedUrl(this.s3Client, command, { expiresIn });
+    } catch (error) {
+      console.error('Error signing download URL:', error);
+      throw storageError(error, 'Failed to sign download URL');
     }
   }
 
   /**
    * Generate S3 URL
    */
-  getS3Url(key: string): string {
-    return `https://${this.bucketName}.s3.${config.AWS_REGION}.amazonaws.com/${key}`;
+  getUrl(key: string): string {
+    return `https://${this.bucketName}.s3.${config.AWS_REGION}.amazonaws.com/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+}
+
+/**
+ * Object tags as the URL query string S3 expects them in
+ */
+function tagging(tags: Record<string, string>): string {
+  return Object.entries(tags)
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Parameters that create an object with the given encryption
+ */
+function encryptionParams(encryption?: UploadEncryption) {
+  switch (encryption?.mode) {
+    case 'SSE-S3':
+      return { ServerSideEncryption: 'AES256' as const };
+    case 'SSE-KMS':
+      return { ServerSideEncryption: 'aws:kms' as const, SSEKMSKeyId: encryption.kmsKeyId };
+    default:
+      return customerKeyParams(encryption);
+  }
+}
+
+/**
+ * Parameters every request that writes or reads an SSE-C object needs; the
+ * SDK adds the key's MD5
+ */
+function customerKeyParams(encryption?: UploadEncryption) {
+  return encryption?.mode === 'SSE-C' && encryption.customerKey
+    ? { SSECustomerAlgorithm: 'AES256', SSECustomerKey: encryption.customerKey }
+    : {};
+}
+
+/**
+ * Parameters that let a copy read an SSE-C source object
+ */
+function copySourceKeyParams(encryption?: UploadEncryption) {
+  return encryption?.mode === 'SSE-C' && encryption.customerKey
+    ? { CopySourceSSECustomerAlgorithm: 'AES256', CopySourceSSECustomerKey: encryption.customerKey }
+    : {};
+}
+
+/**
+ * S3 reports a body that doesn't match its declared checksum as BadDigest
+ * (Content-MD5) or XAmzContentChecksumMismatch (x-amz-checksum-*)
+ */
+function isChecksumError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.name === 'BadDigest' || error.name === 'XAmzContentChecksumMismatch')
+  );
+}
+
+/**
+ * GetObject reports a missing key as NoSuchKey, HeadObject (which has no body)
+ * as NotFound
+ */
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'NoSuchKey' || error.name === 'NotFound');
+}
+
+/**
+ * Wrap an SDK failure with context; throttling, 5xx responses and network
+ * errors become StorageUnavailableError so callers know a retry may succeed,
+ * and a multipart upload S3 doesn't know becomes NotFoundError. Errors that
+ * are already typed, e.g. from verifying a part's stream, pass through.
+ */
+function storageError(error: unknown, message: string): Error {
+  if (error instanceof UploadError) {
+    return error;
   }
+
+  const reason = error instanceof Error ? error.message : 'Unknown error';
+
+  if (isUnavailableError(error)) {
+    return new StorageUnavailableError(`${message}: ${reason}`);
+  }
+
+  if (error instanceof Error && error.name === 'NoSuchUpload') {
+    return new NotFoundError(`${message}: ${reason}`);
+  }
+
+  return new Error(`${message}: ${reason}`);
 }
 
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE']);
+
+function isUnavailableError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const { $metadata, code } = error as Error & { $metadata?: { httpStatusCode?: number }; code?: string };
+
+  return (
+    ($metadata?.httpStatusCode ?? 0) >= 500 ||
+    error.name === 'SlowDown' ||
+    error.name === 'TimeoutError' ||
+    (code !== undefined && NETWORK_ERROR_CODES.has(code))
+  );
+}
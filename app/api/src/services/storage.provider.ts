@@ -0,0 +1,139 @@
+import type { Readable } from 'stream';
+import { config } from '../config/index.js';
+import type {
+  ByteRange,
+  ObjectProperties,
+  PendingMultipartUpload,
+  StoredObjectInfo,
+  UploadEncryption,
+  UploadedPart,
+} from '../types/upload.js';
+import { S3Service } from './s3.service.js';
+import { FsStorageService } from './fs-storage.service.js';
+
+/**
+ * Backend that stores uploaded objects using S3-style multipart semantics.
+ *
+ * Part checksums are base64 SHA-256 digests; implementations must reject a
+ * part whose bytes don't match with a ChecksumMismatchError.
+ *
+ * An object's `encryption` is set when its multipart upload starts. SSE-C
+ * objects can only be written and read with the customer key, so it is passed
+ * again to every later call on them.
+ */
+export interface StorageProvider {
+  /**
+   * Start a multipart upload and return its provider-specific upload ID.
+   * Throws EncryptionNotAllowedError if the encryption isn't supported.
+   */
+  initiateMultipartUpload(
+    key: string,
+    contentType: string,
+    metadata?: Record<string, string>,
+    encryption?: UploadEncryption,
+    properties?: ObjectProperties
+  ): Promise<string>;
+
+  /**
+   * Stream a single part of exactly `contentLength` bytes into storage and
+   * return its ETag. If `body` errors, no part may be stored.
+   */
+  uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Readable,
+    contentLength: number,
+    checksum: string,
+    encryption?: UploadEncryption
+  ): Promise<string>;
+
+  /**
+   * Presign a URL the client can PUT a part to directly. Providers that can't
+   * be reached by clients leave this undefined, which disables direct mode.
+   */
+  getUploadPartUrl?(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    checksum: string,
+    expiresIn: number
+  ): Promise<string>;
+
+  /**
+   * Assemble the parts into the final object and return its URL
+   */
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[],
+    encryption?: UploadEncryption
+  ): Promise<string>;
+
+  /**
+   * Parts stored so far for a multipart upload, ordered by part number.
+   * Throws if the multipart upload doesn't exist.
+   */
+  listParts(key: string, uploadId: string, encryption?: UploadEncryption): Promise<UploadedPart[]>;
+
+  /**
+   * Multipart uploads under `prefix` that have been started but neither
+   * completed nor aborted
+   */
+  listMultipartUploads(prefix: string): Promise<PendingMultipartUpload[]>;
+
+  /**
+   * Discard a multipart upload and any parts stored for it
+   */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+  /**
+   * Size, ETag and modification time of a stored object.
+   * Throws NotFoundError if the object doesn't exist.
+   */
+  headObject(key: string, encryption?: UploadEncryption): Promise<StoredObjectInfo>;
+
+  /**
+   * Stream a stored object, or the inclusive byte `range` of it
+   */
+  getObject(key: string, range?: ByteRange, encryption?: UploadEncryption): Promise<Readable>;
+
+  /**
+   * Copy a stored object, with its content type and metadata, to another key
+   * encrypted the same way. Throws NotFoundError if the source doesn't exist.
+   */
+  copyObject(sourceKey: string, destinationKey: string, encryption?: UploadEncryption): Promise<void>;
+
+  /**
+   * Remove a stored object. Deleting a missing object is not an error.
+   */
+  deleteObject(key: string): Promise<void>;
+
+  /**
+   * Presign a URL the client can download an object from directly, served
+   * with the given type and as an attachment named `fileName`. Providers
+   * that can't be reached by clients leave this undefined.
+   */
+  getDownloadUrl?(
+    key: string,
+    options: { fileName: string; contentType: string; expiresIn: number }
+  ): Promise<string>;
+
+  /**
+   * URL of a stored object
+   */
+  getUrl(key: string): string;
+}
+
+/**
+ * Create the storage provider selected by STORAGE_DRIVER
+ */
+export function createStorageProvider(): StorageProvider {
+  switch (config.STORAGE_DRIVER) {
+    case 'fs':
+      return new FsStorageService(config.STORAGE_FS_ROOT);
+    case 's3':
+    default:
+      return new S3Service();
+  }
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemorySessionStore } from '../stores/session.store.js';
+import type { PendingMultipartUpload, UploadSession } from '../types/upload.js';
+import type { StorageProvider } from './storage.provider.js';
+import { SweeperService } from './sweeper.service.js';
+import { UPLOAD_KEY_PREFIX } from './upload.service.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('SweeperService', () => {
+  let sessionStore: MemorySessionStore;
+  let uploads: PendingMultipartUpload[];
+  let storage: Pick<StorageProvider, 'listMultipartUploads' | 'abortMultipartUpload'>;
+  let sweeper: SweeperService;
+
+  beforeEach(() => {
+    // The sweeper runs on an interval when enabled
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const now = Date.now();
+    uploads = [
+      { key: `${UPLOAD_KEY_PREFIX}old/a.bin`, uploadId: 'old', initiatedAt: now - 48 * HOUR },
+      { key: `${UPLOAD_KEY_PREFIX}young/b.bin`, uploadId: 'young', initiatedAt: now - HOUR },
+      { key: `${UPLOAD_KEY_PREFIX}live/c.bin`, uploadId: 'live', initiatedAt: now - 48 * HOUR },
+      { key: `${UPLOAD_KEY_PREFIX}expired/d.bin`, uploadId: 'expired', initiatedAt: now - 48 * HOUR },
+    ];
+    storage = {
+      listMultipartUploads: vi.fn(async () => uploads),
+      abortMultipartUpload: vi.fn(async () => {}),
+    };
+    sessionStore = new MemorySessionStore();
+    sweeper = new SweeperService(sessionStore, storage as StorageProvider);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  function saveSession(s3UploadId: string, expiresAt: number) {
+    return sessionStore.save({ uploadId: `session-${s3UploadId}`, s3UploadId, expiresAt } as UploadSession);
+  }
+
+  it('lists only uploads under the upload prefix', async () => {
+    await sweeper.sweep({ minAge: 86400 });
+
+    expect(storage.listMultipartUploads).toHaveBeenCalledWith(UPLOAD_KEY_PREFIX);
+  });
+
+  it('aborts old uploads without a live session', async () => {
+    await saveSession('live', Date.now() + HOUR);
+    await saveSession('expired', Date.now() - HOUR);
+
+    const result = await sweeper.sweep({ dryRun: false, minAge: 86400 });
+
+    expect(result.aborted.map((upload) => upload.uploadId)).toEqual(['old', 'expired']);
+    expect(result.scanned).toBe(4);
+    expect(storage.abortMultipartUpload).toHaveBeenCalledTimes(2);
+    expect(storage.abortMultipartUpload).toHaveBeenCalledWith(`${UPLOAD_KEY_PREFIX}old/a.bin`, 'old');
+  });
+
+  it('keeps uploads younger than the minimum age', async () => {
+    const result = await sweeper.sweep({ dryRun: false, minAge: (2 * HOUR) / 1000 });
+
+    expect(result.aborted.map((upload) => upload.uploadId)).toEqual(['old', 'live', 'expired']);
+    expect(storage.abortMultipartUpload).not.toHaveBeenCalledWith(`${UPLOAD_KEY_PREFIX}young/b.bin`, 'young');
+  });
+
+  it('aborts nothing on a dry run', async () => {
+    const result = await sweeper.sweep({ dryRun: true, minAge: 86400 });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.aborted.map((upload) => upload.uploadId)).toEqual(['old', 'live', 'expired']);
+    expect(storage.abortMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it('reports uploads that could not be aborted', async () => {
+    vi.mocked(storage.abortMultipartUpload).mockRejectedValueOnce(new Error('Access denied'));
+
+    const result = await sweeper.sweep({ dryRun: false, minAge: 86400 });
+
+    expect(result.failed).toEqual([{ ...uploads[0], error: 'Access denied' }]);
+    expect(result.aborted.map((upload) => upload.uploadId)).toEqual(['live', 'expired']);
+  });
+});
@@ -0,0 +1,90 @@
+import { createStorageProvider, type StorageProvider } from './storage.provider.js';
+import { UPLOAD_KEY_PREFIX } from './upload.service.js';
+import { config } from '../config/index.js';
+import { createSessionStore, type SessionStore } from '../stores/session.store.js';
+import type { SweepResult } from '../types/upload.js';
+
+export interface SweepOptions {
+  dryRun?: boolean;
+  minAge?: number; // Seconds since the multipart upload was initiated
+}
+
+/**
+ * Aborts multipart uploads that no live session refers to, such as those
+ * left behind by a crashed instance. Expired sessions are cleaned up by
+ * UploadService; this catches everything else in the bucket.
+ */
+export class SweeperService {
+  private storage: StorageProvider;
+  private sessionStore: SessionStore;
+
+  constructor(
+    sessionStore: SessionStore = createSessionStore(),
+    storage: StorageProvider = createStorageProvider()
+  ) {
+    this.storage = storage;
+    this.sessionStore = sessionStore;
+
+    if (config.SWEEPER_ENABLED) {
+      setInterval(() => {
+        this.sweep().catch((error) => {
+          console.error('Error sweeping orphaned multipart uploads:', error);
+        });
+      }, config.SWEEPER_INTERVAL * 1000);
+    }
+  }
+
+  /**
+   * Abort orphaned multipart uploads older than `minAge`
+   *
+   * On a dry run nothing is aborted; `aborted` lists what would have been.
+   */
+  async sweep({
+    dryRun = config.SWEEPER_DRY_RUN,
+    minAge = config.SWEEPER_MIN_AGE,
+  }: SweepOptions = {}): Promise<SweepResult> {
+    const now = Date.now();
+    const olderThan = now - minAge * 1000;
+    const uploads = await this.storage.listMultipartUploads(UPLOAD_KEY_PREFIX);
+
+    // Sessions that can still receive parts; expired ones are fair game
+    const liveUploadIds = new Set(
+      (await this.sessionStore.list())
+        .filter((session) => session.expiresAt > now)
+        .map((session) => session.s3UploadId)
+    );
+
+    const result: SweepResult = { dryRun, olderThan, scanned: uploads.length, aborted: [], failed: [] };
+
+    for (const upload of uploads) {
+      if (upload.initiatedAt >= olderThan || liveUploadIds.has(upload.uploadId)) {
+        continue;
+      }
+
+      if (dryRun) {
+        result.aborted.push(upload);
+        continue;
+      }
+
+      try {
+        await this.storage.abortMultipartUpload(upload.key, upload.uploadId);
+        result.aborted.push(upload);
+      } catch (error) {
+        result.failed.push({
+          ...upload,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (result.aborted.length > 0 || result.failed.length > 0) {
+      console.log(
+        `${dryRun ? '[dry run] Would abort' : 'Aborted'} ${result.aborted.length} orphaned multipart uploads` +
+          (result.failed.length > 0 ? `, ${result.failed.length} failed` : ''),
+        result.aborted.map((upload) => upload.key)
+      );
+    }
+
+    return result;
+  }
+}
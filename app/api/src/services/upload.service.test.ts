@@ -0,0 +1,460 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { config } from '../config/index.js';
+import {
+  AlreadyCompletedError,
+  ContentTypeMismatchError,
+  InvalidObjectKeyError,
+  MalwareDetectedError,
+  NotFoundError,
+  ObjectExistsError,
+  ScanFailedError,
+  SessionExpiredError,
+} from '../errors/upload.errors.js';
+import type { Scanner } from '../scanners/scanner.js';
+import { StubScanner } from '../scanners/stub.scanner.js';
+import { MemoryArtifactStore } from '../stores/artifact.store.js';
+import { MemoryContentIndex } from '../stores/content-index.store.js';
+import { MemorySessionStore } from '../stores/session.store.js';
+import type { InitiateUploadOptions } from '../types/upload.js';
+import { compositeSha256, sha256Base64 } from '../utils/checksum.js';
+import { FsStorageService } from './fs-storage.service.js';
+import { UPLOAD_KEY_PREFIX, UploadService } from './upload.service.js';
+
+// The smallest chunk size S3 allows
+const CHUNK_SIZE = 5 * 1024 * 1024;
+
+const MINUTE = 60 * 1000;
+
+// Three parts, the last one short
+const file = Buffer.alloc(2 * CHUNK_SIZE + 100, 'a');
+
+// The same file with the EICAR test string across its first two parts
+const infected = Buffer.from(file);
+infected.write(
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*',
+  CHUNK_SIZE - 10,
+  'latin1'
+);
+
+function chunk(data: Buffer, index: number): Buffer {
+  return data.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+}
+
+function digestOf(data: Buffer): string {
+  const parts = Array.from({ length: Math.ceil(data.length / CHUNK_SIZE) }, (_, index) => chunk(data, index));
+  return compositeSha256(parts.map(sha256Base64));
+}
+
+describe('UploadService', () => {
+  let directory: string;
+  let storage: FsStorageService;
+  let sessionStore: MemorySessionStore;
+  let contentIndex: MemoryContentIndex;
+  let artifactStore: MemoryArtifactStore;
+  let uploads: UploadService;
+
+  beforeEach(async () => {
+    // Keep the session cleanup interval from running on its own
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    directory = await mkdtemp(path.join(tmpdir(), 'upload-service-'));
+    storage = new FsStorageService(directory);
+    sessionStore = new MemorySessionStore();
+    contentIndex = new MemoryContentIndex();
+    artifactStore = new MemoryArtifactStore();
+    uploads = service();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function service(scanner: Scanner | null = null): UploadService {
+    return new UploadService(sessionStore, storage, contentIndex, artifactStore, scanner);
+  }
+
+  function initiate(overrides: Partial<InitiateUploadOptions> = {}) {
+    return uploads.initiateUpload({
+      fileName: 'data.bin',
+      fileSize: file.length,
+      fileType: 'application/octet-stream',
+      owner: 'alice',
+      ...overrides,
+    });
+  }
+
+  function send(uploadId: string, index: number, data = file) {
+    const part = chunk(data, index);
+    return uploads.uploadChunk(uploadId, index, Readable.from([part]), sha256Base64(part));
+  }
+
+  // Initiate and send every chunk
+  async function sendFile(overrides: Partial<InitiateUploadOptions> = {}, data = file) {
+    const session = await initiate(overrides);
+    for (let index = 0; index < session.totalChunks; index++) {
+      await send(session.uploadId, index, data);
+    }
+    return session;
+  }
+
+  // Initiate, send every chunk and complete
+  async function uploadFile(overrides: Partial<InitiateUploadOptions> = {}) {
+    const session = await sendFile(overrides);
+    return { session, result: await uploads.completeUpload(session.uploadId) };
+  }
+
+  describe('reconcileSession', () => {
+    it('takes parts added, changed or removed in storage', async () => {
+      const { uploadId, s3Key, s3UploadId } = await initiate();
+      await send(uploadId, 0);
+      await send(uploadId, 1);
+
+      const other = Buffer.alloc(CHUNK_SIZE, 'b');
+      const last = chunk(file, 2);
+      await storage.uploadPart(s3Key, s3UploadId, 2, Readable.from([other]), other.length, sha256Base64(other));
+      await storage.uploadPart(s3Key, s3UploadId, 3, Readable.from([last]), last.length, sha256Base64(last));
+      await rm(path.join(directory, 'staging', s3UploadId, '1.part'));
+
+      const { session, added, changed, removed } = await uploads.reconcileSession(uploadId);
+
+      expect({ added, changed, removed }).toEqual({ added: [3], changed: [2], removed: [1] });
+      expect(session.uploadedParts.map((p) => [p.partNumber, p.checksum])).toEqual([
+        [2, sha256Base64(other)],
+        [3, sha256Base64(last)],
+      ]);
+    });
+
+    it("keeps recorded checksums of unchanged parts storage doesn't report them for", async () => {
+      const { uploadId } = await initiate();
+      await send(uploadId, 0);
+      const listParts = storage.listParts.bind(storage);
+      vi.spyOn(storage, 'listParts').mockImplementation(async (...args) =>
+        (await listParts(...args)).map(({ checksum: _checksum, ...part }) => part)
+      );
+
+      const { session, changed } = await uploads.reconcileSession(uploadId);
+
+      expect(changed).toEqual([]);
+      expect(session.uploadedParts[0].checksum).toBe(sha256Base64(chunk(file, 0)));
+    });
+
+    it('keeps parts recorded while storage was being listed', async () => {
+      const { uploadId } = await initiate();
+      await send(uploadId, 0);
+      const listParts = storage.listParts.bind(storage);
+      vi.spyOn(storage, 'listParts').mockImplementationOnce(async (...args) => {
+        const listed = await listParts(...args);
+        await send(uploadId, 1);
+        return listed;
+      });
+
+      const { session, added, removed } = await uploads.reconcileSession(uploadId);
+
+      expect({ added, removed }).toEqual({ added: [], removed: [] });
+      expect(session.uploadedParts.map((p) => p.partNumber)).toEqual([1, 2]);
+    });
+  });
+
+  describe('recoverUpload', () => {
+    it('continues an upload whose session was lost', async () => {
+      const { uploadId, s3Key, s3UploadId } = await initiate();
+      await send(uploadId, 0);
+      await send(uploadId, 1);
+      await sessionStore.delete(uploadId);
+
+      const session = await uploads.recoverUpload({ s3Key, s3UploadId, fileSize: file.length, owner: 'alice' });
+
+      expect(session).toMatchObject({ chunkSize: CHUNK_SIZE, totalChunks: 3, status: 'uploading' });
+      expect(session.uploadedParts.map((p) => p.partNumber)).toEqual([1, 2]);
+
+      await send(session.uploadId, 2);
+      const result = await uploads.completeUpload(session.uploadId);
+
+      expect(result.compositeSha256).toBe(digestOf(file));
+    });
+
+    it('refuses keys outside the upload prefix', async () => {
+      const recovery = uploads.recoverUpload({ s3Key: 'backups/db.dump', s3UploadId: 'abc' });
+
+      await expect(recovery).rejects.toThrow(InvalidObjectKeyError);
+    });
+  });
+
+  describe('object properties', () => {
+    const settings = {
+      OBJECT_DEFAULT_TAGS: config.OBJECT_DEFAULT_TAGS,
+      OBJECT_DEFAULT_STORAGE_CLASS: config.OBJECT_DEFAULT_STORAGE_CLASS,
+      OBJECT_DEFAULT_CACHE_CONTROL: config.OBJECT_DEFAULT_CACHE_CONTROL,
+    };
+
+    beforeEach(() => {
+      // Default tags are read when the service is created
+      Object.assign(config, {
+        OBJECT_DEFAULT_TAGS: 'team=storage, env=dev',
+        OBJECT_DEFAULT_STORAGE_CLASS: 'INTELLIGENT_TIERING',
+        OBJECT_DEFAULT_CACHE_CONTROL: 'private, max-age=3600',
+      });
+      uploads = service();
+    });
+
+    afterEach(() => {
+      Object.assign(config, settings);
+    });
+
+    it('applies the defaults to uploads that set nothing', async () => {
+      const initiateMultipartUpload = vi.spyOn(storage, 'initiateMultipartUpload');
+
+      const session = await initiate();
+
+      expect(session.properties).toEqual({
+        tags: { team: 'storage', env: 'dev' },
+        storageClass: 'INTELLIGENT_TIERING',
+        cacheControl: 'private, max-age=3600',
+        contentDisposition: undefined,
+      });
+      expect(initiateMultipartUpload.mock.calls[0][4]).toEqual(session.properties);
+    });
+
+    it('merges request tags into the default ones and lets request settings win', async () => {
+      const session = await initiate({
+        tags: { env: 'prod', project: 'web' },
+        storageClass: 'GLACIER_IR',
+        cacheControl: 'no-store',
+        contentDisposition: 'attachment',
+      });
+
+      expect(session.properties).toEqual({
+        tags: { team: 'storage', env: 'prod', project: 'web' },
+        storageClass: 'GLACIER_IR',
+        cacheControl: 'no-store',
+        contentDisposition: 'attachment',
+      });
+    });
+
+    it('sets no tags without default or request tags', async () => {
+      Object.assign(config, { OBJECT_DEFAULT_TAGS: '' });
+      uploads = service();
+
+      const session = await initiate();
+
+      expect(session.properties?.tags).toBeUndefined();
+    });
+  });
+
+  describe('object keys', () => {
+    const settings = {
+      KEY_TEMPLATE: config.KEY_TEMPLATE,
+      KEY_COLLISION_POLICY: config.KEY_COLLISION_POLICY,
+    };
+
+    afterEach(() => {
+      Object.assign(config, settings);
+    });
+
+    it('numbers keys of existing objects with the suffix policy', async () => {
+      Object.assign(config, { KEY_TEMPLATE: 'uploads/{fileName}', KEY_COLLISION_POLICY: 'suffix' });
+      await uploadFile();
+
+      const session = await initiate();
+
+      expect(session.s3Key).toBe('uploads/data-1.bin');
+    });
+
+    it('rejects keys of existing objects with the reject policy', async () => {
+      Object.assign(config, { KEY_TEMPLATE: 'uploads/{fileName}', KEY_COLLISION_POLICY: 'reject' });
+      await uploadFile();
+
+      await expect(initiate()).rejects.toThrow(new ObjectExistsError('Object key uploads/data.bin is already taken'));
+    });
+
+    it('treats keys of uploads in progress as taken', async () => {
+      Object.assign(config, { KEY_TEMPLATE: 'uploads/{fileName}', KEY_COLLISION_POLICY: 'suffix' });
+      const first = await initiate();
+
+      const second = await initiate({ owner: 'bob' });
+
+      expect(first.s3Key).toBe('uploads/data.bin');
+      expect(second.s3Key).toBe('uploads/data-1.bin');
+    });
+
+    it('gives up after the last suffix', async () => {
+      Object.assign(config, { KEY_TEMPLATE: 'uploads/{fileName}', KEY_COLLISION_POLICY: 'suffix' });
+      const headObject = vi.spyOn(storage, 'headObject').mockResolvedValue({ size: 1, etag: '"x"', lastModified: 0 });
+
+      await expect(initiate()).rejects.toThrow('No free key found for uploads/data.bin after 100 suffixes');
+      expect(headObject).toHaveBeenCalledTimes(101);
+      expect(headObject).toHaveBeenLastCalledWith('uploads/data-100.bin');
+    });
+  });
+
+  describe('uploadChunk', () => {
+    it('fails the upload when the first part does not match the declared type', async () => {
+      const { uploadId, s3Key, s3UploadId } = await initiate({ fileName: 'photo.png', fileType: 'image/png' });
+
+      await expect(send(uploadId, 0)).rejects.toThrow(ContentTypeMismatchError);
+
+      expect((await sessionStore.get(uploadId))?.status).toBe('failed');
+      await expect(storage.listParts(s3Key, s3UploadId)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('session expiry', () => {
+    const settings = { UPLOAD_EXPIRATION: config.UPLOAD_EXPIRATION, UPLOAD_MAX_LIFETIME: config.UPLOAD_MAX_LIFETIME };
+    const start = Date.now();
+    let clock: MockInstance<() => number>;
+
+    beforeEach(() => {
+      Object.assign(config, { UPLOAD_EXPIRATION: 3600, UPLOAD_MAX_LIFETIME: 5400 });
+      clock = vi.spyOn(Date, 'now').mockReturnValue(start);
+    });
+
+    afterEach(() => {
+      Object.assign(config, settings);
+    });
+
+    it('moves expiresAt out with every part and heartbeat', async () => {
+      const { uploadId, expiresAt } = await initiate();
+
+      clock.mockReturnValue(start + 10 * MINUTE);
+      await send(uploadId, 0);
+      const afterPart = (await sessionStore.get(uploadId))?.expiresAt;
+      clock.mockReturnValue(start + 20 * MINUTE);
+      const afterHeartbeat = (await uploads.extendUpload(uploadId)).expiresAt;
+
+      expect(expiresAt).toBe(start + 60 * MINUTE);
+      expect(afterPart).toBe(start + 70 * MINUTE);
+      expect(afterHeartbeat).toBe(start + 80 * MINUTE);
+    });
+
+    it('never moves expiresAt past maxExpiresAt', async () => {
+      const { uploadId, maxExpiresAt } = await initiate();
+      clock.mockReturnValue(start + 45 * MINUTE);
+
+      const session = await uploads.extendUpload(uploadId);
+
+      expect(maxExpiresAt).toBe(start + 90 * MINUTE);
+      expect(session.expiresAt).toBe(maxExpiresAt);
+    });
+
+    it('refuses to extend an expired session', async () => {
+      const { uploadId } = await initiate();
+      clock.mockReturnValue(start + 61 * MINUTE);
+
+      await expect(uploads.extendUpload(uploadId)).rejects.toThrow(SessionExpiredError);
+      expect((await sessionStore.get(uploadId))?.status).toBe('failed');
+    });
+
+    it('refuses to extend a completed session', async () => {
+      const { session } = await uploadFile();
+
+      await expect(uploads.extendUpload(session.uploadId)).rejects.toThrow(AlreadyCompletedError);
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('reports the completion time recorded on the artifact, also when completed again', async () => {
+      const { session, result } = await uploadFile();
+
+      const again = await uploads.completeUpload(session.uploadId);
+
+      expect(result.completedAt).toBe((await artifactStore.get(session.uploadId))?.completedAt);
+      expect(again.completedAt).toBe(result.completedAt);
+    });
+  });
+
+  describe('scanning', () => {
+    it('completes a clean upload', async () => {
+      uploads = service(new StubScanner());
+
+      const { session, result } = await uploadFile();
+
+      expect(result.scan).toMatchObject({ verdict: 'clean', scanner: 'stub' });
+      expect((await sessionStore.get(session.uploadId))?.status).toBe('completed');
+    });
+
+    it('quarantines an infected upload', async () => {
+      uploads = service(new StubScanner());
+      const { uploadId, s3Key } = await sendFile({}, infected);
+
+      await expect(uploads.completeUpload(uploadId)).rejects.toThrow(MalwareDetectedError);
+
+      const session = await sessionStore.get(uploadId);
+      expect(session).toMatchObject({
+        status: 'quarantined',
+        s3Key: `${config.QUARANTINE_KEY_PREFIX}${s3Key.slice(UPLOAD_KEY_PREFIX.length)}`,
+        scan: { verdict: 'infected', signature: 'Eicar-Test-Signature' },
+      });
+      await expect(storage.headObject(s3Key)).rejects.toThrow(NotFoundError);
+      expect((await storage.headObject(session!.s3Key)).size).toBe(infected.length);
+    });
+
+    it('scans again without assembling again after a failed scan', async () => {
+      const scanner = new StubScanner();
+      vi.spyOn(scanner, 'scan').mockRejectedValueOnce(new ScanFailedError('Scanner unreachable'));
+      const completeMultipartUpload = vi.spyOn(storage, 'completeMultipartUpload');
+      uploads = service(scanner);
+      const { uploadId } = await sendFile();
+
+      await expect(uploads.completeUpload(uploadId)).rejects.toThrow(ScanFailedError);
+      expect((await sessionStore.get(uploadId))?.status).toBe('scanning');
+
+      const result = await uploads.completeUpload(uploadId);
+
+      expect(result.scan?.verdict).toBe('clean');
+      expect(result.compositeSha256).toBe(digestOf(file));
+      expect(scanner.scan).toHaveBeenCalledTimes(2);
+      expect(completeMultipartUpload).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deduplication', () => {
+    const digest = digestOf(file);
+
+    it('finds the object of a completed upload with the same content', async () => {
+      const { session } = await uploadFile({ compositeSha256: digest });
+
+      const duplicate = await uploads.findDuplicate('alice', digest, file.length);
+
+      expect(duplicate).toMatchObject({
+        uploadId: session.uploadId,
+        s3Key: session.s3Key,
+        s3Url: storage.getUrl(session.s3Key),
+      });
+    });
+
+    it("scopes lookups to the uploader's own objects", async () => {
+      await uploadFile({ compositeSha256: digest });
+
+      expect(await uploads.findDuplicate('bob', digest, file.length)).toBeNull();
+      expect(await uploads.findDuplicate(undefined, digest, file.length)).toBeNull();
+    });
+
+    it('does not match a different size or encryption', async () => {
+      await uploadFile({ compositeSha256: digest });
+
+      expect(await uploads.findDuplicate('alice', digest, file.length + 1)).toBeNull();
+      expect(await uploads.findDuplicate('alice', digest, file.length, { mode: 'SSE-S3' })).toBeNull();
+    });
+
+    it('never indexes SSE-C uploads', async () => {
+      // The fs driver refuses encryption; the key only matters to S3
+      const initiateMultipartUpload = storage.initiateMultipartUpload.bind(storage);
+      vi.spyOn(storage, 'initiateMultipartUpload').mockImplementation((key, contentType, metadata) =>
+        initiateMultipartUpload(key, contentType, metadata)
+      );
+      const customerKey = Buffer.alloc(32, 1).toString('base64');
+
+      const { session } = await uploadFile({ compositeSha256: digest, encryption: { mode: 'SSE-C', customerKey } });
+
+      expect(await contentIndex.get('alice', digest)).toBeNull();
+      expect((await artifactStore.get(session.uploadId))?.encryption).toEqual({ mode: 'SSE-C' });
+    });
+  });
+});
@@ -1,30 +1,124 @@
 import { randomUUID } from 'crypto';
-import { S3Service } from './s3.service.js';
+import { EventEmitter } from 'events';
+import { pipeline, type Readable } from 'stream';
+import { createStorageProvider, type StorageProvider } from './storage.provider.js';
+import { QuotaService } from './quota.service.js';
+import { FileTypeService } from './file-type.service.js';
+import { EncryptionService } from './encryption.service.js';
+import { assertWebhookAllowed } from './webhook.service.js';
 import { config } from '../config/index.js';
-import type { UploadSession } from '../types/upload.js';
+import { createScanner, type Scanner } from '../scanners/scanner.js';
+import { createSessionStore, type SessionStore } from '../stores/session.store.js';
+import { createContentIndex, type ContentIndex } from '../stores/content-index.store.js';
+import { createArtifactStore, type ArtifactStore } from '../stores/artifact.store.js';
+import {
+  AlreadyCompletedError,
+  EncryptionNotAllowedError,
+  ForbiddenError,
+  IntegrityMismatchError,
+  InvalidChunkError,
+  InvalidObjectKeyError,
+  MalwareDetectedError,
+  NotFoundError,
+  ObjectExistsError,
+  SessionExpiredError,
+  SessionNotFoundError,
+  UploadCancelledError,
+  UploadFailedError,
+  UploadModeMismatchError,
+  ValidationError,
+} from '../errors/upload.errors.js';
+import { compositeSha256 } from '../utils/checksum.js';
+import { SNIFF_LENGTH } from '../utils/file-signature.js';
+import { SniffStream } from '../utils/stream.js';
+import {
+  MAX_KEY_LENGTH,
+  keyTemplatePrefix,
+  keyTemplateVariables,
+  renderKeyTemplate,
+  suffixKey,
+} from '../utils/object-key.js';
+import type {
+  CompleteUploadResult,
+  ContentIndexEntry,
+  FileTypePolicy,
+  InitiateUploadOptions,
+  ObjectProperties,
+  QuotaUsage,
+  ReconcileResult,
+  RecoverUploadOptions,
+  ScanVerdict,
+  SignedPartUrl,
+  UploadEncryption,
+  UploadServiceEvents,
+  UploadSession,
+} from '../types/upload.js';
 
-export class UploadService {
-  private s3Service: S3Service;
-  private uploadSessions: Map<string, UploadSession>;
+// Every object key is created under this prefix, the static start of the key template
+export const UPLOAD_KEY_PREFIX = keyTemplatePrefix(config.KEY_TEMPLATE);
 
-  constructor() {
-    this.s3Service = new S3Service();
-    this.uploadSessions = new Map();
+// Suffixes tried before giving up on finding a free key
+const MAX_KEY_SUFFIX = 100;
+
+export class UploadService extends EventEmitter<UploadServiceEvents> {
+  private storage: StorageProvider;
+  private sessionStore: SessionStore;
+  private quotaService: QuotaService;
+  private fileTypeService: FileTypeService;
+  private encryptionService: EncryptionService;
+  private contentIndex: ContentIndex;
+  private artifactStore: ArtifactStore;
+  private scanner: Scanner | null;
+  private defaultTags: Record<string, string>;
+
+  constructor(
+    sessionStore: SessionStore = createSessionStore(),
+    storage: StorageProvider = createStorageProvider(),
+    contentIndex: ContentIndex = createContentIndex(),
+    artifactStore: ArtifactStore = createArtifactStore(),
+    scanner: Scanner | null = createScanner()
+  ) {
+    super();
+    this.storage = storage;
+    this.sessionStore = sessionStore;
+    this.contentIndex = contentIndex;
+    this.artifactStore = artifactStore;
+    this.scanner = scanner;
+    this.defaultTags = parseTags(config.OBJECT_DEFAULT_TAGS);
+    this.quotaService = new QuotaService();
+    this.fileTypeService = new FileTypeService();
+    this.encryptionService = new EncryptionService();
+
+    // Every open event stream adds listeners
+    this.setMaxListeners(0);
     
     // Clean up expired sessions every 5 minutes
-    setInterval(() => this.cleanupExpiredSessions(), 5 * 60 * 1000);
+    setInterval(() => {
+      this.cleanupExpiredSessions().catch((error) => {
+        console.error('Error cleaning up expired sessions:', error);
+      });
+    }, 5 * 60 * 1000);
   }
 
   /**
    * Initiate a new upload session
    */
-  async initiateUpload(
-    fileName: string,
-    fileSize: number,
-    fileType: string,
-    chunkSize?: number,
-    metadata?: Record<string, string>
-  ): Promise<UploadSession> {
+  async initiateUpload({
+    fileName,
+    fileSize,
+    fileType,
+    chunkSize,
+    metadata,
+    tags,
+    storageClass = config.OBJECT_DEFAULT_STORAGE_CLASS,
+    cacheControl = config.OBJECT_DEFAULT_CACHE_CONTROL,
+    contentDisposition,
+    uploadMode = config.DEFAULT_UPLOAD_MODE,
+    encryption: requestedEncryption,
+    compositeSha256,
+    owner,
+    webhooks,
+  }: InitiateUploadOptions): Promise<UploadSession> {
     const uploadId = randomUUID();
     const effectiveChunkSize = chunkSize || config.CHUNK_SIZE;
     
@@ -34,83 +128,118 @@ export class UploadService {
     const MIN_CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
     
     if (effectiveChunkSize < MIN_CHUNK_SIZE) {
-      throw new Error(
+      throw new ValidationError(
         `Chunk size must be at least 5MB for S3 multipart uploads. Current: ${effectiveChunkSize} bytes`
       );
     }
     
-    const totalChunks = Math.ceil(fileSize / effectiveChunkSize);
-    
-    // Generate S3 key
-    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_');
-    const s3Key = `uploads/${uploadId}/${sanitizedFileName}`;
+    if (uploadMode === 'direct' && !this.storage.getUploadPartUrl) {
+      throw new ValidationError(`Direct uploads are not supported by the ${config.STORAGE_DRIVER} storage driver`);
+    }
 
-    // Initiate S3 multipart upload
-    const s3UploadId = await this.s3Service.initiateMultipartUpload(
-      s3Key,
-      fileType,
-      metadata
-    );
+    this.fileTypeService.assertAllowed(fileName, fileType, fileSize);
 
-    const now = Date.now();
-    const expiresAt = now + config.UPLOAD_EXPIRATION * 1000;
+    for (const webhook of webhooks ?? []) {
+      await assertWebhookAllowed(webhook.url);
+    }
 
-    const session: UploadSession = {
-      uploadId,
-      fileName,
-      fileSize,
-      fileType,
-      chunkSize: effectiveChunkSize,
-      totalChunks,
-      s3Key,
-      s3UploadId,
-      uploadedParts: [],
-      status: 'pending',
-      metadata,
-      createdAt: now,
-      expiresAt,
-    };
+    const encryption = this.encryptionService.resolve(requestedEncryption);
+
+    // Clients would have to send the key to S3 with every part themselves
+    if (encryption.mode === 'SSE-C' && uploadMode === 'direct') {
+      throw new EncryptionNotAllowedError('SSE-C encryption is only available for proxy uploads');
+    }
+
+    if (owner) {
+      this.quotaService.reserve(owner, uploadId, fileSize, await this.sessionStore.list());
+    }
+
+    // Give the reserved quota back if the upload can't be started
+    let session: UploadSession;
+    try {
+      const totalChunks = Math.ceil(fileSize / effectiveChunkSize);
+      const objectTags = { ...this.defaultTags, ...tags };
+      const properties: ObjectProperties = {
+        tags: Object.keys(objectTags).length > 0 ? objectTags : undefined,
+        storageClass,
+        cacheControl,
+        contentDisposition,
+      };
+
+      const now = Date.now();
+      const s3Key = await this.objectKey({ uploadId, fileName, metadata, compositeSha256, owner }, now);
+
+      // The object only comes into existence once the declared digest has been
+      // verified, so it can be stored as metadata up front
+      const s3UploadId = await this.storage.initiateMultipartUpload(
+        s3Key,
+        fileType,
+        compositeSha256 ? { ...metadata, 'composite-sha256': compositeSha256 } : metadata,
+        encryption,
+        properties
+      );
+
+      const expiresAt = now + config.UPLOAD_EXPIRATION * 1000;
+      const maxExpiresAt = now + config.UPLOAD_MAX_LIFETIME * 1000;
+
+      session = {
+        uploadId,
+        fileName,
+        fileSize,
+        fileType,
+        chunkSize: effectiveChunkSize,
+        totalChunks,
+        s3Key,
+        s3UploadId,
+        uploadMode,
+        owner,
+        uploadedParts: [],
+        status: 'pending',
+        metadata,
+        properties,
+        encryption,
+        expectedCompositeSha256: compositeSha256,
+        webhooks,
+        createdAt: now,
+        expiresAt,
+        maxExpiresAt,
+      };
+
+      await this.sessionStore.save(session);
+    } catch (error) {
+      this.quotaService.cancelReservation(uploadId);
+      throw error;
+    }
+
+    this.quotaService.confirmReservation(uploadId);
 
-    this.uploadSessions.set(uploadId, session);
+    this.emit('upload.initiated', session);
 
     return session;
   }
 
   /**
    * Upload a chunk
+   *
+   * The chunk is streamed straight into storage, so memory use doesn't grow
+   * with the chunk size. `checksum` is the base64 SHA-256 the client computed
+   * for the chunk; storage rejects the part if the bytes don't match it.
    */
   async uploadChunk(
     uploadId: string,
     chunkIndex: number,
-    chunkData: Buffer
+    chunkData: Readable,
+    checksum: string
   ): Promise<{ etag: string; partNumber: number }> {
-    const session = this.uploadSessions.get(uploadId);
+    const session = await this.getActiveSession(uploadId);
 
-    if (!session) {
-      throw new Error('Upload session not found');
-    }
-
-    if (session.status === 'completed') {
-      throw new Error('Upload already completed');
+    if (session.uploadMode === 'direct') {
+      throw new UploadModeMismatchError('Upload uses direct mode; PUT chunks to presigned part URLs instead');
     }
 
-    if (session.status === 'cancelled') {
-      throw new Error('Upload was cancelled');
-    }
-
-    if (Date.now() > session.expiresAt) {
-      session.status = 'failed';
-      throw new Error('Upload session expired');
-    }
-
-    // Validate chunk index is within range
-    if (chunkIndex < 0 || chunkIndex >= session.totalChunks) {
-      throw new Error(
-        `Invalid chunk index ${chunkIndex}. Expected 0-${session.totalChunks - 1}`
-      );
-    }
+    this.assertCustomerKey(session);
 
-    const partNumber = chunkIndex + 1;
+    const partNumber = this.toPartNumber(session, chunkIndex);
 
     // Check if this part was already uploaded
     const existingPart = session.uploadedParts.find(
@@ -118,23 +247,52 @@ export class UploadService {
     );
 
     if (existingPart) {
+      chunkData.resume(); // Discard the body
       console.log(
         `Part ${partNumber}/${session.totalChunks} already uploaded for session ${uploadId}, returning existing etag`
       );
       return { etag: existingPart.etag, partNumber };
     }
 
-    // Upload to S3
-    const etag = await this.s3Service.uploadPart(
-      session.s3Key,
-      session.s3UploadId,
-      partNumber,
-      chunkData
-    );
+    // The first chunk holds the file's signature; it is checked against the
+    // declared type before any of it is stored
+    const sniffer =
+      partNumber === 1
+        ? new SniffStream(SNIFF_LENGTH, (head) => this.fileTypeService.assertContentMatches(session.fileType, head))
+        : undefined;
+
+    // Upload to storage
+    const size = this.partSize(session, partNumber);
+    let etag: string;
+
+    try {
+      etag = await this.storage.uploadPart(
+        session.s3Key,
+        session.s3UploadId,
+        partNumber,
+        sniffer ? pipeline(chunkData, sniffer, () => {}) : chunkData,
+        size,
+        checksum,
+        session.encryption
+      );
+    } catch (error) {
+      if (sniffer?.rejection) {
+        await this.storage
+          .abortMultipartUpload(session.s3Key, session.s3UploadId)
+          .catch((abortError) => console.error(`Error aborting rejected upload ${uploadId}:`, abortError));
+        await this.failUpload(session, sniffer.rejection);
+        throw sniffer.rejection;
+      }
+      throw error;
+    }
 
     // Save the uploaded part
-    session.uploadedParts.push({ partNumber, etag });
-    session.status = 'uploading';
+    const part = { partNumber, etag, checksum, size };
+    session.uploadedParts.push(part);
+    this.changeStatus(session, 'uploading');
+    this.extendExpiry(session);
+    await this.sessionStore.save(session);
+    this.emit('part.uploaded', session, part);
 
     console.log(
       `Uploaded part ${partNumber}/${session.totalChunks}, total uploaded: ${session.uploadedParts.length}`
@@ -143,34 +301,248 @@ export class UploadService {
     return { etag, partNumber };
   }
 
+  /**
+   * Sign S3 UploadPart URLs for a direct-mode upload
+   */
+  async signUploadParts(
+    uploadId: string,
+    parts: { chunkIndex: number; checksum: string }[]
+  ): Promise<{ parts: SignedPartUrl[]; expiresAt: number }> {
+    const session = await this.getActiveSession(uploadId);
+
+    if (session.uploadMode !== 'direct') {
+      throw new UploadModeMismatchError('Upload uses proxy mode; send chunks to /upload/chunk instead');
+    }
+
+    const { getUploadPartUrl } = this.storage;
+    if (!getUploadPartUrl) {
+      throw new ValidationError(`Direct uploads are not supported by the ${config.STORAGE_DRIVER} storage driver`);
+    }
+
+    const expiresIn = config.PRESIGNED_URL_EXPIRATION;
+    const expiresAt = Date.now() + expiresIn * 1000;
+
+    const signedParts = await Promise.all(
+      parts.map(async ({ chunkIndex, checksum }) => {
+        const partNumber = this.toPartNumber(session, chunkIndex);
+        const url = await getUploadPartUrl.call(
+          this.storage,
+          session.s3Key,
+          session.s3UploadId,
+          partNumber,
+          checksum,
+          expiresIn
+        );
+        return { partNumber, url };
+      })
+    );
+
+    return { parts: signedParts, expiresAt };
+  }
+
+  /**
+   * Record a part the client uploaded directly to S3
+   */
+  async recordUploadedPart(
+    uploadId: string,
+    chunkIndex: number,
+    etag: string,
+    checksum: string
+  ): Promise<{ etag: string; partNumber: number }> {
+    const session = await this.getActiveSession(uploadId);
+
+    if (session.uploadMode !== 'direct') {
+      throw new UploadModeMismatchError('Upload uses proxy mode; parts are recorded by /upload/chunk');
+    }
+
+    const partNumber = this.toPartNumber(session, chunkIndex);
+    const normalizedEtag = normalizeEtag(etag);
+
+    // A part may be re-uploaded after a failed attempt; the latest ETag wins
+    session.uploadedParts = session.uploadedParts.filter((p) => p.partNumber !== partNumber);
+    const part = { partNumber, etag: normalizedEtag, checksum, size: this.partSize(session, partNumber) };
+    session.uploadedParts.push(part);
+    this.changeStatus(session, 'uploading');
+    this.extendExpiry(session);
+    await this.sessionStore.save(session);
+    this.emit('part.uploaded', session, part);
+
+    return { etag: normalizedEtag, partNumber };
+  }
+
   /**
    * Complete the upload
+   *
+   * For direct-mode uploads the client may pass the ETags it received from S3;
+   * they must match the parts it reported while uploading.
+   *
+   * The file digest is composed from the S3-verified part checksums. If the
+   * client declared a digest at initiation and it doesn't match, the upload
+   * is marked failed and the multipart upload is never completed.
    */
-  async completeUpload(uploadId: string): Promise<{
-    s3Key: string;
-    s3Url: string;
-    fileSize: number;
-  }> {
-    const session = this.uploadSessions.get(uploadId);
+  async completeUpload(
+    uploadId: string,
+    reportedParts?: { chunkIndex: number; etag: string }[]
+  ): Promise<CompleteUploadResult> {
+    const session = await this.sessionStore.get(uploadId);
 
     if (!session) {
-      throw new Error('Upload session not found');
+      throw new SessionNotFoundError();
     }
 
     if (session.status === 'completed') {
       return {
         s3Key: session.s3Key,
-        s3Url: this.s3Service.getS3Url(session.s3Key),
+        s3Url: this.storage.getUrl(session.s3Key),
         fileSize: session.fileSize,
+        compositeSha256: session.compositeSha256 || this.composeDigest(session),
+        scan: session.scan,
+        // Sessions completed by older versions only recorded it on the artifact
+        completedAt: session.completedAt ?? (await this.artifactStore.get(uploadId))?.completedAt ?? Date.now(),
       };
     }
 
-    // Deduplicate parts by partNumber (just in case)
-    const uniqueParts = Array.from(
-      new Map(session.uploadedParts.map(p => [p.partNumber, p])).values()
-    );
-    
-    session.uploadedParts = uniqueParts;
+    if (session.status === 'quarantined') {
+      throw new MalwareDetectedError(session.scan?.signature);
+    }
+
+    if (session.status === 'cancelled') {
+      throw new UploadCancelledError();
+    }
+
+    if (session.status === 'failed') {
+      throw new UploadFailedError();
+    }
+
+    this.assertCustomerKey(session);
+
+    // A session left scanning was assembled already; only the scan is repeated
+    const s3Url =
+      session.status === 'scanning' ? this.storage.getUrl(session.s3Key) : await this.assemble(session, reportedParts);
+    const digest = session.compositeSha256 as string;
+
+    if (this.scanner) {
+      await this.scan(session, this.scanner);
+    }
+
+    const completedAt = Date.now();
+    session.completedAt = completedAt;
+    this.changeStatus(session, 'completed');
+    await this.sessionStore.save(session);
+
+    const encryption = session.encryption && {
+      mode: session.encryption.mode,
+      kmsKeyId: session.encryption.kmsKeyId,
+    };
+
+    // The object exists at this point; a failed write only hides it from listings
+    await this.artifactStore
+      .save({
+        uploadId: session.uploadId,
+        fileName: session.fileName,
+        fileSize: session.fileSize,
+        fileType: session.fileType,
+        s3Key: session.s3Key,
+        compositeSha256: digest,
+        metadata: session.metadata,
+        owner: session.owner,
+        createdAt: session.createdAt,
+        completedAt,
+        encryption,
+      })
+      .catch((error) => console.error(`Error recording artifact ${uploadId}:`, error));
+
+    // SSE-C objects can only be read by whoever holds the key
+    if (config.DEDUP_ENABLED && session.encryption?.mode !== 'SSE-C') {
+      // A missing index entry only costs a future re-upload
+      await this.contentIndex
+        .save({
+          compositeSha256: digest,
+          owner: session.owner,
+          fileName: session.fileName,
+          fileSize: session.fileSize,
+          fileType: session.fileType,
+          s3Key: session.s3Key,
+          uploadId: session.uploadId,
+          encryption,
+          completedAt,
+        })
+        .catch((error) => console.error(`Error indexing upload ${uploadId}:`, error));
+    }
+
+    const result: CompleteUploadResult = {
+      s3Key: session.s3Key,
+      s3Url,
+      fileSize: session.fileSize,
+      compositeSha256: digest,
+      scan: session.scan,
+      completedAt,
+    };
+
+    this.emit('upload.completed', session, result);
+
+    return result;
+  }
+
+  /**
+   * Find an object the principal already uploaded with the same content,
+   * encrypted the way a new upload would be
+   *
+   * Returns null when deduplication is disabled or nothing matches.
+   */
+  async findDuplicate(
+    owner: string | undefined,
+    compositeSha256: string,
+    fileSize: number,
+    encryption?: UploadEncryption
+  ): Promise<(ContentIndexEntry & { s3Url: string }) | null> {
+    if (!config.DEDUP_ENABLED) {
+      return null;
+    }
+
+    const wanted = this.encryptionService.resolve(encryption);
+    const entry = await this.contentIndex.get(owner, compositeSha256);
+    const stored = entry?.encryption ?? { mode: 'none' };
+
+    if (
+      !entry ||
+      entry.fileSize !== fileSize ||
+      stored.mode !== wanted.mode ||
+      stored.kmsKeyId !== wanted.kmsKeyId
+    ) {
+      return null;
+    }
+
+    return { ...entry, s3Url: this.storage.getUrl(entry.s3Key) };
+  }
+
+  /**
+   * Ensure a principal may act on an upload session.
+   *
+   * Unknown sessions pass, so the operation itself reports them as not found.
+   */
+  async authorizeSession(uploadId: string, principalId: string): Promise<void> {
+    const session = await this.sessionStore.get(uploadId);
+
+    if (session?.owner && session.owner !== principalId) {
+      throw new ForbiddenError();
+    }
+  }
+
+  /**
+   * Verify the parts of a session and assemble them into the final object.
+   * Sets the session's verified digest and returns the object's URL.
+   */
+  private async assemble(
+    session: UploadSession,
+    reportedParts?: { chunkIndex: number; etag: string }[]
+  ): Promise<string> {
+    // Storage is the source of truth for which parts exist
+    await this.reconcile(session);
+
+    if (reportedParts) {
+      this.verifyReportedParts(session, reportedParts);
+    }
 
     if (session.uploadedParts.length !== session.totalChunks) {
       // Log detailed info for debugging
@@ -180,87 +552,599 @@ export class UploadService {
         partNumbers: session.uploadedParts.map(p => p.partNumber).sort((a, b) => a - b),
       });
       
-      throw new Error(
+      throw new InvalidChunkError(
         `Not all chunks uploaded. Expected ${session.totalChunks}, got ${session.uploadedParts.length}`
       );
     }
 
-    // Complete S3 multipart upload
-    const s3Url = await this.s3Service.completeMultipartUpload(
+    const digest = this.composeDigest(session);
+
+    if (session.expectedCompositeSha256 && session.expectedCompositeSha256 !== digest) {
+      const error = new IntegrityMismatchError(session.expectedCompositeSha256, digest);
+      await this.failUpload(session, error);
+      throw error;
+    }
+
+    // Complete the multipart upload
+    const s3Url = await this.storage.completeMultipartUpload(
       session.s3Key,
       session.s3UploadId,
-      session.uploadedParts
+      session.uploadedParts,
+      session.encryption
     );
 
-    session.status = 'completed';
+    // Direct-mode parts never pass through the API, so the content is only
+    // checked once it has been assembled
+    if (session.uploadMode === 'direct' && this.fileTypeService.getPolicy().contentSniffing) {
+      await this.verifyStoredContent(session);
+    }
 
-    return {
-      s3Key: session.s3Key,
-      s3Url,
-      fileSize: session.fileSize,
-    };
+    session.compositeSha256 = digest;
+
+    // The object exists from here on; a failed scan is retried without
+    // assembling it again
+    if (this.scanner) {
+      this.changeStatus(session, 'scanning');
+      await this.sessionStore.save(session);
+    }
+
+    return s3Url;
+  }
+
+  /**
+   * Stream the assembled object to the scanner, quarantining it if it is
+   * infected. The session is left scanning if the scan fails.
+   */
+  private async scan(session: UploadSession, scanner: Scanner): Promise<void> {
+    const result = await scanner.scan(await this.storage.getObject(session.s3Key, undefined, session.encryption));
+    const scan: ScanVerdict = { ...result, scanner: scanner.name, scannedAt: Date.now() };
+
+    session.scan = scan;
+
+    if (scan.verdict === 'clean') {
+      return;
+    }
+
+    // Move the object out of the upload prefix, so nothing serves it
+    const quarantineKey = `${config.QUARANTINE_KEY_PREFIX}${
+      session.s3Key.startsWith(UPLOAD_KEY_PREFIX) ? session.s3Key.slice(UPLOAD_KEY_PREFIX.length) : session.s3Key
+    }`;
+    await this.storage.copyObject(session.s3Key, quarantineKey, session.encryption);
+    await this.storage.deleteObject(session.s3Key);
+
+    session.s3Key = quarantineKey;
+    this.changeStatus(session, 'quarantined');
+    await this.sessionStore.save(session);
+    this.emit('upload.quarantined', session, scan);
+
+    throw new MalwareDetectedError(scan.signature);
+  }
+
+  /**
+   * Which files may be uploaded
+   */
+  getFileTypePolicy(): FileTypePolicy {
+    return this.fileTypeService.getPolicy();
+  }
+
+  /**
+   * Quota usage and limits of a principal
+   */
+  async getQuotaUsage(principalId: string): Promise<QuotaUsage> {
+    return this.quotaService.getUsage(principalId, await this.sessionStore.list());
+  }
+
+  /**
+   * Number of sessions that are still accepting parts
+   */
+  async countActiveSessions(): Promise<number> {
+    const now = Date.now();
+    return (await this.sessionStore.list()).filter(
+      (session) => (session.status === 'pending' || session.status === 'uploading') && session.expiresAt > now
+    ).length;
   }
 
   /**
    * Get upload status
+   *
+   * In-progress sessions are reconciled with storage first; if storage can't
+   * be reached the recorded state is returned.
    */
-  getUploadStatus(uploadId: string): UploadSession | null {
-    return this.uploadSessions.get(uploadId) || null;
+  async getUploadStatus(uploadId: string): Promise<UploadSession | null> {
+    const session = await this.sessionStore.get(uploadId);
+
+    if (session && (session.status === 'pending' || session.status === 'uploading')) {
+      try {
+        await this.reconcile(session);
+      } catch (error) {
+        console.error(`Error reconciling upload ${uploadId}:`, error);
+      }
+    }
+
+    return session;
+  }
+
+  /**
+   * Rebuild a session's uploaded parts from the parts in storage
+   */
+  async reconcileSession(uploadId: string): Promise<ReconcileResult> {
+    const session = await this.sessionStore.get(uploadId);
+
+    if (!session) {
+      throw new SessionNotFoundError();
+    }
+
+    if (session.status === 'completed') {
+      throw new AlreadyCompletedError('Cannot reconcile completed upload');
+    }
+
+    if (session.status === 'scanning' || session.status === 'quarantined') {
+      throw new AlreadyCompletedError('Cannot reconcile assembled upload');
+    }
+
+    if (session.status === 'cancelled') {
+      throw new UploadCancelledError('Cannot reconcile cancelled upload');
+    }
+
+    return this.reconcile(session);
+  }
+
+  /**
+   * Recreate a session for a multipart upload that exists in storage, e.g.
+   * after the session was lost. Parts are taken from storage; when `fileSize`
+   * is omitted the parts already stored are assumed to be the whole file.
+   *
+   * Storage doesn't record an upload's encryption, declared digest or
+   * webhooks, so the caller must declare them again. Only uploads under the
+   * key prefix this API uploads to can be recovered.
+   */
+  async recoverUpload({
+    s3Key,
+    s3UploadId,
+    fileName = s3Key.split('/').pop() || s3Key,
+    fileSize,
+    fileType = 'application/octet-stream',
+    chunkSize,
+    uploadMode = config.DEFAULT_UPLOAD_MODE,
+    encryption: requestedEncryption,
+    compositeSha256,
+    webhooks,
+    owner,
+  }: RecoverUploadOptions): Promise<UploadSession> {
+    if (!s3Key.startsWith(UPLOAD_KEY_PREFIX)) {
+      throw new InvalidObjectKeyError(`Only uploads under ${UPLOAD_KEY_PREFIX} can be recovered`);
+    }
+
+    const existing = (await this.sessionStore.list()).find(
+      (s) => s.s3Key === s3Key && s.s3UploadId === s3UploadId
+    );
+
+    if (existing) {
+      if (existing.owner && existing.owner !== owner) {
+        throw new ForbiddenError();
+      }
+
+      // Declaring the key again is how an SSE-C upload continues after a restart
+      const { encryption } = existing;
+      if (encryption?.mode === 'SSE-C' && !encryption.customerKey && requestedEncryption?.mode === 'SSE-C') {
+        encryption.customerKey = requestedEncryption.customerKey;
+        await this.sessionStore.save(existing);
+      }
+      return existing;
+    }
+
+    const encryption = this.encryptionService.resolve(requestedEncryption);
+
+    if (encryption.mode === 'SSE-C' && uploadMode === 'direct') {
+      throw new EncryptionNotAllowedError('SSE-C encryption is only available for proxy uploads');
+    }
+
+    for (const webhook of webhooks ?? []) {
+      await assertWebhookAllowed(webhook.url);
+    }
+
+    const parts = await this.storage.listParts(s3Key, s3UploadId, encryption);
+    const effectiveChunkSize = chunkSize || parts[0]?.size || config.CHUNK_SIZE;
+    const effectiveFileSize = fileSize ?? parts.reduce((total, p) => total + (p.size ?? 0), 0);
+    const now = Date.now();
+
+    const session: UploadSession = {
+      uploadId: randomUUID(),
+      fileName,
+      fileSize: effectiveFileSize,
+      fileType,
+      chunkSize: effectiveChunkSize,
+      totalChunks: fileSize === undefined ? parts.length : Math.ceil(fileSize / effectiveChunkSize),
+      s3Key,
+      s3UploadId,
+      uploadMode,
+      owner,
+      uploadedParts: parts,
+      status: parts.length > 0 ? 'uploading' : 'pending',
+      encryption,
+      expectedCompositeSha256: compositeSha256,
+      webhooks,
+      createdAt: now,
+      expiresAt: now + config.UPLOAD_EXPIRATION * 1000,
+      maxExpiresAt: now + config.UPLOAD_MAX_LIFETIME * 1000,
+    };
+
+    await this.sessionStore.save(session);
+
+    return session;
+  }
+
+  /**
+   * Keep an upload alive while no parts arrive, e.g. while the client is
+   * paused. Like a part, it moves the expiry out by UPLOAD_EXPIRATION, but
+   * never past the session's maxExpiresAt.
+   */
+  async extendUpload(uploadId: string): Promise<UploadSession> {
+    const session = await this.getActiveSession(uploadId);
+
+    this.extendExpiry(session);
+    await this.sessionStore.save(session);
+    this.emit('upload.extended', session);
+
+    return session;
   }
 
   /**
    * Cancel upload
    */
   async cancelUpload(uploadId: string): Promise<void> {
-    const session = this.uploadSessions.get(uploadId);
+    const session = await this.sessionStore.get(uploadId);
 
     if (!session) {
-      throw new Error('Upload session not found');
+      throw new SessionNotFoundError();
     }
 
     if (session.status === 'completed') {
-      throw new Error('Cannot cancel completed upload');
+      throw new AlreadyCompletedError('Cannot cancel completed upload');
     }
 
-    // Abort S3 multipart upload
-    await this.s3Service.abortMultipartUpload(
+    if (session.status === 'scanning' || session.status === 'quarantined') {
+      throw new AlreadyCompletedError('Cannot cancel assembled upload');
+    }
+
+    // Abort the multipart upload
+    await this.storage.abortMultipartUpload(
       session.s3Key,
       session.s3UploadId
     );
 
-    session.status = 'cancelled';
+    this.changeStatus(session, 'cancelled');
     
     // Remove from active sessions
-    this.uploadSessions.delete(uploadId);
+    await this.sessionStore.delete(uploadId);
+
+    this.emit('upload.cancelled', session);
   }
 
   /**
-   * Clean up expired sessions
+   * Load a session that can still accept parts
    */
-  private cleanupExpiredSessions(): void {
-    const now = Date.now();
-    const expiredSessions: string[] = [];
+  private async getActiveSession(uploadId: string): Promise<UploadSession> {
+    const session = await this.sessionStore.get(uploadId);
+
+    if (!session) {
+      throw new SessionNotFoundError();
+    }
+
+    if (session.status === 'completed') {
+      throw new AlreadyCompletedError();
+    }
+
+    if (session.status === 'scanning') {
+      throw new AlreadyCompletedError('Upload is being scanned');
+    }
+
+    if (session.status === 'quarantined') {
+      throw new MalwareDetectedError(session.scan?.signature);
+    }
+
+    if (session.status === 'cancelled') {
+      throw new UploadCancelledError();
+    }
+
+    if (Date.now() > session.expiresAt) {
+      const wasActive = session.status !== 'failed';
+      this.changeStatus(session, 'failed');
+      await this.sessionStore.save(session);
+      if (wasActive) {
+        this.emit('upload.expired', session);
+      }
+      throw new SessionExpiredError();
+    }
+
+    if (session.status === 'failed') {
+      throw new UploadFailedError();
+    }
+
+    return session;
+  }
+
+  /**
+   * Restart the session's idle timeout, capped at its maximum lifetime
+   */
+  private extendExpiry(session: UploadSession): void {
+    session.expiresAt = Math.min(Date.now() + config.UPLOAD_EXPIRATION * 1000, session.maxExpiresAt);
+  }
+
+  /**
+   * Mark a session failed, notifying listeners with the reason
+   */
+  private async failUpload(session: UploadSession, error: Error): Promise<void> {
+    this.changeStatus(session, 'failed');
+    await this.sessionStore.save(session);
+    this.emit('upload.failed', session, error.message);
+  }
+
+  /**
+   * Check the start of an assembled object against its declared type,
+   * deleting the object and failing the session if it doesn't match
+   */
+  private async verifyStoredContent(session: UploadSession): Promise<void> {
+    const body = await this.storage.getObject(
+      session.s3Key,
+      { start: 0, end: Math.min(SNIFF_LENGTH, session.fileSize) - 1 },
+      session.encryption
+    );
+    const head = Buffer.concat(await body.toArray());
+
+    try {
+      this.fileTypeService.assertContentMatches(session.fileType, head);
+    } catch (error) {
+      await this.storage
+        .deleteObject(session.s3Key)
+        .catch((deleteError) => console.error(`Error deleting rejected upload ${session.uploadId}:`, deleteError));
+      await this.failUpload(session, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the upload's object key from KEY_TEMPLATE and settle collisions
+   * with existing objects and with uploads still on their way to the same key
+   */
+  private async objectKey(
+    upload: Pick<UploadSession, 'uploadId' | 'fileName' | 'metadata' | 'owner'> & { compositeSha256?: string },
+    now: number
+  ): Promise<string> {
+    const date = new Date(now);
+    const values: Record<string, string> = {
+      ...upload.metadata,
+      uploadId: upload.uploadId,
+      fileName: upload.fileName,
+      principal: upload.owner ?? 'anonymous',
+      yyyy: String(date.getUTCFullYear()),
+      mm: String(date.getUTCMonth() + 1).padStart(2, '0'),
+      dd: String(date.getUTCDate()).padStart(2, '0'),
+    };
+
+    if (upload.compositeSha256) {
+      const [digest, partCount] = upload.compositeSha256.split('-');
+      values.compositeSha256 = `${Buffer.from(digest, 'base64').toString('hex')}-${partCount}`;
+    }
+
+    const missing = keyTemplateVariables(config.KEY_TEMPLATE).filter((name) => !values[name]);
+    if (missing.length > 0) {
+      throw new InvalidObjectKeyError(`Object key needs ${missing.map((name) => `{${name}}`).join(', ')}`);
+    }
+
+    const key = renderKeyTemplate(config.KEY_TEMPLATE, values);
+
+    if (config.KEY_COLLISION_POLICY === 'overwrite') {
+      return this.assertKeyLength(key);
+    }
+
+    // Uploads in progress don't have an object yet but will claim their key
+    const activeKeys = new Set(
+      (await this.sessionStore.list())
+        .filter(
+          (session) =>
+            ((session.status === 'pending' || session.status === 'uploading') && session.expiresAt > now) ||
+            session.status === 'scanning'
+        )
+        .map((session) => session.s3Key)
+    );
 
-    for (const [uploadId, session] of this.uploadSessions.entries()) {
-      if (now > session.expiresAt && session.status !== 'completed') {
-        expiredSessions.push(uploadId);
+    for (let n = 0; n <= MAX_KEY_SUFFIX; n++) {
+      const candidate = n === 0 ? key : suffixKey(key, n);
+
+      if (!activeKeys.has(candidate) && !(await this.objectExists(candidate))) {
+        return this.assertKeyLength(candidate);
+      }
+
+      if (config.KEY_COLLISION_POLICY === 'reject') {
+        throw new ObjectExistsError(`Object key ${candidate} is already taken`);
       }
     }
 
-    expiredSessions.forEach(async (uploadId) => {
-      const session = this.uploadSessions.get(uploadId);
-      if (session) {
-        try {
-          await this.s3Service.abortMultipartUpload(
-            session.s3Key,
-            session.s3UploadId
-          );
-        } catch (error) {
-          console.error(`Error aborting expired upload ${uploadId}:`, error);
+    throw new ObjectExistsError(`No free key found for ${key} after ${MAX_KEY_SUFFIX} suffixes`);
+  }
+
+  private async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.storage.headObject(key);
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Customer keys aren't persisted, so after a restart an SSE-C upload can't
+   * write or read its object until the key is declared again
+   */
+  private assertCustomerKey(session: UploadSession): void {
+    if (session.encryption?.mode === 'SSE-C' && !session.encryption.customerKey) {
+      throw new EncryptionNotAllowedError(
+        'The SSE-C key of this upload is no longer known; declare it again through POST /api/upload/recover'
+      );
+    }
+  }
+
+  private assertKeyLength(key: string): string {
+    if (Buffer.byteLength(key) > MAX_KEY_LENGTH) {
+      throw new InvalidObjectKeyError(`Object key is longer than ${MAX_KEY_LENGTH} bytes`);
+    }
+    return key;
+  }
+
+  /**
+   * Set a session's status, notifying listeners if it changed
+   */
+  private changeStatus(session: UploadSession, status: UploadSession['status']): void {
+    const previous = session.status;
+    session.status = status;
+
+    // An SSE-C key is only needed while the object is written and scanned
+    if (['completed', 'quarantined', 'failed', 'cancelled'].includes(status)) {
+      delete session.encryption?.customerKey;
+    }
+
+    if (previous !== status) {
+      this.emit('status.changed', session, previous);
+    }
+  }
+
+  /**
+   * Validate a zero-based chunk index and convert it to an S3 part number
+   */
+  private toPartNumber(session: UploadSession, chunkIndex: number): number {
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= session.totalChunks) {
+      throw new InvalidChunkError(
+        `Invalid chunk index ${chunkIndex}. Expected 0-${session.totalChunks - 1}`
+      );
+    }
+
+    return chunkIndex + 1;
+  }
+
+  /**
+   * Compose the file digest from the part checksums, in part order
+   */
+  private composeDigest(session: UploadSession): string {
+    const parts = [...session.uploadedParts].sort((a, b) => a.partNumber - b.partNumber);
+    const missing = parts.filter((p) => !p.checksum).map((p) => p.partNumber);
+
+    if (missing.length > 0) {
+      throw new InvalidChunkError(`Parts ${missing.join(', ')} have no checksum; cannot verify file digest`);
+    }
+
+    return compositeSha256(parts.map((p) => p.checksum!));
+  }
+
+  /**
+   * Replace the session's parts with the parts in storage and save it.
+   *
+   * Storage wins on ETags; a recorded checksum is kept when storage doesn't
+   * report one for an unchanged part. Parts recorded while storage was being
+   * listed are newer than the listing, so they are kept as recorded.
+   */
+  private async reconcile(session: UploadSession): Promise<ReconcileResult> {
+    const recordedParts = [...session.uploadedParts];
+    const storedParts = await this.storage.listParts(session.s3Key, session.s3UploadId, session.encryption);
+    const recorded = new Map(recordedParts.map((p) => [p.partNumber, p]));
+    const stored = new Set(storedParts.map((p) => p.partNumber));
+    const newer = session.uploadedParts.filter((p) => !recordedParts.includes(p));
+    const newerNumbers = new Set(newer.map((p) => p.partNumber));
+    const added: number[] = [];
+    const changed: number[] = [];
+
+    const parts = storedParts
+      .filter((p) => p.partNumber <= session.totalChunks && !newerNumbers.has(p.partNumber))
+      .map((part) => {
+        const previous = recorded.get(part.partNumber);
+
+        if (!previous) {
+          added.push(part.partNumber);
+        } else if (previous.etag !== part.etag) {
+          changed.push(part.partNumber);
+        } else if (!part.checksum) {
+          return { ...part, checksum: previous.checksum };
         }
-        this.uploadSessions.delete(uploadId);
+
+        return part;
+      });
+
+    const removed = [...recorded.keys()].filter((n) => !stored.has(n) && !newerNumbers.has(n));
+
+    if (added.length || changed.length || removed.length) {
+      console.log(`Reconciled upload ${session.uploadId} with storage:`, { added, changed, removed });
+    }
+
+    session.uploadedParts = [...parts, ...newer].sort((a, b) => a.partNumber - b.partNumber);
+    if (session.status === 'pending' && session.uploadedParts.length > 0) {
+      this.changeStatus(session, 'uploading');
+    }
+    await this.sessionStore.save(session);
+
+    return { session, added, removed, changed };
+  }
+
+  /**
+   * Expected size of a part: the chunk size, except for a shorter last part
+   */
+  private partSize(session: UploadSession, partNumber: number): number {
+    const start = (partNumber - 1) * session.chunkSize;
+    return Math.min(session.chunkSize, session.fileSize - start);
+  }
+
+  /**
+   * Check client-reported ETags against the parts recorded for the session
+   */
+  private verifyReportedParts(
+    session: UploadSession,
+    reportedParts: { chunkIndex: number; etag: string }[]
+  ): void {
+    const recorded = new Map(session.uploadedParts.map((p) => [p.partNumber, p.etag]));
+
+    for (const { chunkIndex, etag } of reportedParts) {
+      const partNumber = this.toPartNumber(session, chunkIndex);
+      const recordedEtag = recorded.get(partNumber);
+
+      if (!recordedEtag) {
+        throw new InvalidChunkError(`Part ${partNumber} was never reported as uploaded`);
       }
-    });
+
+      if (recordedEtag !== normalizeEtag(etag)) {
+        throw new InvalidChunkError(`ETag mismatch for part ${partNumber}`);
+      }
+    }
+  }
+
+  /**
+   * Clean up expired sessions
+   */
+  private async cleanupExpiredSessions(): Promise<void> {
+    const now = Date.now();
+    // Scanning and quarantined sessions have an assembled object to account for
+    const expiredSessions = (await this.sessionStore.list()).filter(
+      (session) =>
+        now > session.expiresAt && !['completed', 'scanning', 'quarantined'].includes(session.status)
+    );
+
+    for (const session of expiredSessions) {
+      // Sessions already marked failed have reported their failure
+      if (session.status !== 'failed') {
+        this.emit('upload.expired', session);
+      }
+
+      try {
+        await this.storage.abortMultipartUpload(
+          session.s3Key,
+          session.s3UploadId
+        );
+      } catch (error) {
+        console.error(`Error aborting expired upload ${session.uploadId}:`, error);
+      }
+      await this.sessionStore.delete(session.uploadId);
+    }
 
     if (expiredSessions.length > 0) {
       console.log(`Cleaned up ${expiredSessions.length} expired upload sessions`);
@@ -269,3 +1153,27 @@ export class UploadService {
 
 }
 
+/**
+ * Parse `key1=value1,key2=value2` into tags
+ */
+function parseTags(value: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      throw new Error('OBJECT_DEFAULT_TAGS entries must have the form key=value');
+    }
+    tags[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+
+  return tags;
+}
+
+/**
+ * S3 returns ETags wrapped in double quotes; accept them with or without
+ */
+function normalizeEtag(etag: string): string {
+  const trimmed = etag.trim().replace(/^"|"$/g, '');
+  return `"${trimmed}"`;
+}
@@ -0,0 +1,118 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import { MemoryWebhookStore } from '../stores/webhook.store.js';
+import type { UploadSession, WebhookDelivery } from '../types/upload.js';
+import { WebhookService } from './webhook.service.js';
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const session = { uploadId: 'u1', fileName: 'a.bin', fileSize: 3, s3Key: 'uploads/u1/a.bin', owner: 'alice' } as UploadSession;
+
+describe('WebhookService', () => {
+  const settings = { WEBHOOK_URLS: config.WEBHOOK_URLS, WEBHOOK_SECRET: config.WEBHOOK_SECRET };
+  let server: http.Server;
+  let url: string;
+  let received: Received[];
+  let store: MemoryWebhookStore;
+
+  beforeEach(async () => {
+    // Keep the retry and pruning intervals from running on their own
+    vi.useFakeTimers({ toFake: ['setInterval'] });
+    received = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    store = new MemoryWebhookStore();
+  });
+
+  afterEach(async () => {
+    Object.assign(config, settings);
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function service(webhookSecret = 'global-secret-123'): WebhookService {
+    Object.assign(config, { WEBHOOK_URLS: url, WEBHOOK_SECRET: webhookSecret });
+    return new WebhookService(store);
+  }
+
+  it('signs the timestamp and raw body with HMAC-SHA256', async () => {
+    await service().enqueue('upload.completed', session, { status: 'completed' });
+
+    const [{ headers, body }] = received;
+    const [, timestamp, signature] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(String(headers['x-webhook-signature']))!;
+    const expected = createHmac('sha256', 'global-secret-123').update(`${timestamp}.${body}`).digest('hex');
+
+    expect(signature).toBe(expected);
+    expect(Math.abs(Number(timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(headers['x-webhook-event']).toBe('upload.completed');
+    expect(JSON.parse(body)).toMatchObject({ event: 'upload.completed', data: { uploadId: 'u1', status: 'completed' } });
+  });
+
+  it("signs with the subscription's own secret", async () => {
+    await service().enqueue('upload.completed', { ...session, webhooks: [{ url, secret: 'subscription-secret' }] }, {});
+
+    const verifiesWith = (secret: string) =>
+      received.filter(({ headers, body }) => {
+        const [, timestamp, signature] = /^t=(\d+),v1=(\w+)$/.exec(String(headers['x-webhook-signature']))!;
+        return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex') === signature;
+      }).length;
+
+    expect(verifiesWith('global-secret-123')).toBe(1);
+    expect(verifiesWith('subscription-secret')).toBe(1);
+  });
+
+  it('refuses to deliver per-upload webhooks to internal addresses', async () => {
+    const webhooks = [{ url: url.replace('127.0.0.1', 'localhost') }];
+
+    await service().enqueue('upload.completed', { ...session, webhooks }, {});
+
+    const blocked = (await store.list()).find((d) => d.url.includes('localhost'))!;
+    expect(received).toHaveLength(1);
+    expect(blocked.status).toBe('pending');
+    expect(blocked.attempts[0].error).toMatch(/public address/);
+  });
+
+  it('does not sign without a secret', async () => {
+    await service('').enqueue('upload.completed', session, {});
+
+    expect(received[0].headers['x-webhook-signature']).toBeUndefined();
+  });
+
+  it('removes finished deliveries after the retention', async () => {
+    const old = Date.now() - (config.WEBHOOK_RETENTION + 60) * 1000;
+    const delivery = (id: string, status: WebhookDelivery['status'], at: number): WebhookDelivery => ({
+      id,
+      event: 'upload.completed',
+      url,
+      uploadId: 'u1',
+      body: '{}',
+      status,
+      attempts: [{ at, statusCode: 200, durationMs: 1 }],
+      createdAt: at,
+    });
+    await store.save(delivery('old', 'delivered', old));
+    await store.save(delivery('recent', 'failed', Date.now()));
+    await store.save({ ...delivery('retrying', 'pending', old), nextAttemptAt: Date.now() + 60_000 });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    service();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+    expect((await store.list()).map((d) => d.id).sort()).toEqual(['recent', 'retrying']);
+  });
+});
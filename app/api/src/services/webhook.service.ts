@@ -0,0 +1,331 @@
+import { createHmac, randomUUID } from 'crypto';
+import http from 'http';
+import https from 'https';
+import type { LookupFunction } from 'net';
+import { config } from '../config/index.js';
+import { createWebhookStore, type WebhookStore } from '../stores/webhook.store.js';
+import { NotFoundError, WebhookNotAllowedError } from '../errors/upload.errors.js';
+import { assertPublicHost, publicOnlyLookup } from '../utils/network.js';
+import type { UploadService } from './upload.service.js';
+import type {
+  UploadEventName,
+  UploadSession,
+  WebhookDelivery,
+  WebhookSubscription,
+} from '../types/upload.js';
+
+export type PublicWebhookDelivery = Omit<WebhookDelivery, 'secret' | 'body'> & { payload: unknown };
+
+// Retries back off exponentially up to this delay
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
+
+// Hosts trusted for per-upload webhooks, even when they are internal
+const ALLOWED_HOSTS = config.WEBHOOK_ALLOWED_HOSTS.split(',').map((h) => h.trim()).filter(Boolean);
+
+/**
+ * Throw a WebhookNotAllowedError unless a per-upload webhook URL is allowed:
+ * its host must be in WEBHOOK_ALLOWED_HOSTS or, when that is empty, resolve
+ * to public addresses only, so uploads can't make the server probe its own
+ * network.
+ */
+export async function assertWebhookAllowed(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+
+  if (ALLOWED_HOSTS.includes(hostname)) return;
+
+  if (ALLOWED_HOSTS.length > 0) {
+    throw new WebhookNotAllowedError(`Webhook host ${hostname} is not allowed`);
+  }
+
+  try {
+    await assertPublicHost(hostname);
+  } catch {
+    throw new WebhookNotAllowedError(`Webhook host ${hostname} does not resolve to a public address`);
+  }
+}
+
+/**
+ * Delivers upload lifecycle events to webhook subscribers.
+ *
+ * Every delivery is persisted before it is attempted, and failed attempts are
+ * retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+ * Up to WEBHOOK_CONCURRENCY deliveries are attempted at once, so a slow
+ * subscriber doesn't hold up the others. Finished deliveries are removed
+ * after WEBHOOK_RETENTION.
+ */
+export class WebhookService {
+  private store: WebhookStore;
+  private globalSubscriptions: WebhookSubscription[];
+  private delivering = false;
+
+  constructor(store: WebhookStore = createWebhookStore()) {
+    this.store = store;
+    this.globalSubscriptions = config.WEBHOOK_URLS.split(',')
+      .map((url) => url.trim())
+      .filter(Boolean)
+      .map((url) => ({ url }));
+
+    // Pick up due retries, including those left by a previous process
+    setInterval(() => {
+      this.deliverDue().catch((error) => {
+        console.error('Error delivering webhooks:', error);
+      });
+    }, 5 * 1000);
+
+    // Remove finished deliveries past their retention every 5 minutes
+    setInterval(() => {
+      this.pruneFinished().catch((error) => {
+        console.error('Error pruning webhook deliveries:', error);
+      });
+    }, 5 * 60 * 1000);
+  }
+
+  /**
+   * Queue deliveries for every lifecycle event of an UploadService
+   */
+  subscribeTo(uploadService: UploadService): void {
+    const enqueue = (event: UploadEventName, session: UploadSession, data: Record<string, unknown>) => {
+      this.enqueue(event, session, data).catch((error) => {
+        console.error(`Error queueing ${event} webhooks for ${session.uploadId}:`, error);
+      });
+    };
+
+    uploadService.on('upload.completed', (session, result) =>
+      enqueue('upload.completed', session, { ...result, status: 'completed' })
+    );
+    uploadService.on('upload.failed', (session, error) =>
+      enqueue('upload.failed', session, { status: 'failed', error })
+    );
+    uploadService.on('upload.cancelled', (session) =>
+      enqueue('upload.cancelled', session, { status: 'cancelled' })
+    );
+    uploadService.on('upload.expired', (session) =>
+      enqueue('upload.expired', session, { status: 'expired' })
+    );
+    uploadService.on('upload.quarantined', (session, scan) =>
+      enqueue('upload.quarantined', session, { status: 'quarantined', s3Key: session.s3Key, scan })
+    );
+  }
+
+  /**
+   * Persist one delivery per matching subscription and attempt them
+   */
+  async enqueue(event: UploadEventName, session: UploadSession, data: Record<string, unknown>): Promise<void> {
+    const subscriptions = [...this.globalSubscriptions, ...(session.webhooks ?? [])].filter(
+      (subscription) => !subscription.events || subscription.events.includes(event)
+    );
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+
+    for (const subscription of subscriptions) {
+      const id = randomUUID();
+
+      // Same fields as the completion response, plus what happened
+      const body = JSON.stringify({
+        id,
+        event,
+        createdAt: now,
+        data: {
+          uploadId: session.uploadId,
+          fileName: session.fileName,
+          fileSize: session.fileSize,
+          s3Key: session.s3Key,
+          ...data,
+        },
+      });
+
+      await this.store.save({
+        id,
+        event,
+        url: subscription.url,
+        uploadId: session.uploadId,
+        owner: session.owner,
+        secret: subscription.secret,
+        body,
+        status: 'pending',
+        attempts: [],
+        nextAttemptAt: now,
+        createdAt: now,
+      });
+    }
+
+    await this.deliverDue();
+  }
+
+  /**
+   * Deliveries, newest first, optionally filtered
+   */
+  async listDeliveries(
+    filter: { uploadId?: string; owner?: string; status?: WebhookDelivery['status'] } = {}
+  ): Promise<PublicWebhookDelivery[]> {
+    return (await this.store.list())
+      .filter(
+        (d) =>
+          (!filter.uploadId || d.uploadId === filter.uploadId) &&
+          (filter.owner === undefined || d.owner === filter.owner) &&
+          (!filter.status || d.status === filter.status)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(toPublicDelivery);
+  }
+
+  /**
+   * Queue a delivery to be attempted again now, whatever its state
+   */
+  async redeliver(id: string): Promise<PublicWebhookDelivery> {
+    const delivery = await this.store.get(id);
+
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery not found');
+    }
+
+    delivery.status = 'pending';
+    delivery.nextAttemptAt = Date.now();
+    await this.store.save(delivery);
+
+    await this.deliverDue();
+
+    return toPublicDelivery((await this.store.get(id)) ?? delivery);
+  }
+
+  /**
+   * Attempt every pending delivery whose next attempt is due
+   */
+  private async deliverDue(): Promise<void> {
+    // A run already in progress picks up deliveries queued meanwhile
+    if (this.delivering) return;
+    this.delivering = true;
+
+    try {
+      let due: WebhookDelivery[];
+
+      do {
+        const now = Date.now();
+        due = (await this.store.list()).filter(
+          (d) => d.status === 'pending' && (d.nextAttemptAt ?? 0) <= now
+        );
+
+        const queue = [...due];
+        const worker = async () => {
+          for (let delivery = queue.shift(); delivery; delivery = queue.shift()) {
+            await this.attempt(delivery);
+          }
+        };
+        await Promise.all(Array.from({ length: Math.min(config.WEBHOOK_CONCURRENCY, queue.length) }, worker));
+      } while (due.length > 0);
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000);
+    const secret = delivery.secret ?? config.WEBHOOK_SECRET;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'artifact-uploader-webhooks',
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Event': delivery.event,
+    };
+
+    if (secret) {
+      headers['X-Webhook-Signature'] = `t=${timestamp},v1=${sign(secret, timestamp, delivery.body)}`;
+    }
+
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    // Per-upload URLs are checked again on every attempt: IP addresses up
+    // front, host names by the lookup of the connection itself
+    const { hostname } = new URL(delivery.url);
+    const trusted = this.globalSubscriptions.some((s) => s.url === delivery.url) || ALLOWED_HOSTS.includes(hostname);
+
+    try {
+      if (!trusted) {
+        await assertPublicHost(hostname);
+      }
+      statusCode = await post(delivery.url, headers, delivery.body, trusted ? undefined : publicOnlyLookup);
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Subscriber responded with ${statusCode}`;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Unknown error';
+    }
+
+    delivery.attempts.push({ at: startedAt, statusCode, error, durationMs: Date.now() - startedAt });
+
+    if (!error) {
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = undefined;
+    } else if (delivery.attempts.length >= config.WEBHOOK_MAX_ATTEMPTS) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      console.error(`Webhook ${delivery.id} to ${delivery.url} failed permanently: ${error}`);
+    } else {
+      const delay = config.WEBHOOK_RETRY_BASE_DELAY * 1000 * 2 ** (delivery.attempts.length - 1);
+      delivery.nextAttemptAt = Date.now() + Math.min(delay, MAX_RETRY_DELAY);
+    }
+
+    await this.store.save(delivery);
+  }
+
+  /**
+   * Remove delivered and failed deliveries whose last attempt is older than
+   * WEBHOOK_RETENTION
+   */
+  private async pruneFinished(): Promise<void> {
+    const cutoff = Date.now() - config.WEBHOOK_RETENTION * 1000;
+    const finished = (await this.store.list()).filter(
+      (d) => d.status !== 'pending' && (d.attempts[d.attempts.length - 1]?.at ?? d.createdAt) < cutoff
+    );
+
+    for (const delivery of finished) {
+      await this.store.delete(delivery.id);
+    }
+
+    if (finished.length > 0) {
+      console.log(`Pruned ${finished.length} finished webhook deliveries`);
+    }
+  }
+}
+
+/**
+ * POST a body and resolve with the response status. Redirects are not
+ * followed; `lookup` replaces the DNS lookup of the connection.
+ */
+function post(url: string, headers: Record<string, string>, body: string, lookup?: LookupFunction): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = (url.startsWith('https:') ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup,
+        signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex-encoded. Subscribers recompute
+ * it to authenticate the request and reject stale timestamps to stop replays.
+ */
+function sign(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function toPublicDelivery({ secret: _secret, body, ...delivery }: WebhookDelivery): PublicWebhookDelivery {
+  return { ...delivery, payload: JSON.parse(body) };
+}
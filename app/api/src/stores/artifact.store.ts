@@ -0,0 +1,81 @@
+import { config } from '../config/index.js';
+import { JsonDirectoryStore } from './json-directory.store.js';
+import type { Artifact } from '../types/upload.js';
+
+/**
+ * Persistence for the records of completed uploads
+ */
+export interface ArtifactStore {
+  get(uploadId: string): Promise<Artifact | null>;
+  save(artifact: Artifact): Promise<void>;
+  delete(uploadId: string): Promise<void>;
+  list(): Promise<Artifact[]>;
+}
+
+/**
+ * In-process store. Records are lost when the process exits.
+ */
+export class MemoryArtifactStore implements ArtifactStore {
+  private artifacts = new Map<string, Artifact>();
+
+  async get(uploadId: string): Promise<Artifact | null> {
+    return this.artifacts.get(uploadId) || null;
+  }
+
+  async save(artifact: Artifact): Promise<void> {
+    this.artifacts.set(artifact.uploadId, artifact);
+  }
+
+  async delete(uploadId: string): Promise<void> {
+    this.artifacts.delete(uploadId);
+  }
+
+  async list(): Promise<Artifact[]> {
+    return Array.from(this.artifacts.values());
+  }
+}
+
+/**
+ * Durable store writing one JSON document per artifact to a directory
+ */
+export class FileArtifactStore implements ArtifactStore {
+  private artifacts: JsonDirectoryStore<Artifact>;
+
+  constructor(directory: string) {
+    this.artifacts = new JsonDirectoryStore(directory, (artifact) => artifact.uploadId, 'artifacts', reviveArtifact);
+  }
+
+  get(uploadId: string): Promise<Artifact | null> {
+    return this.artifacts.get(uploadId);
+  }
+
+  save(artifact: Artifact): Promise<void> {
+    return this.artifacts.save(artifact);
+  }
+
+  delete(uploadId: string): Promise<void> {
+    return this.artifacts.delete(uploadId);
+  }
+
+  list(): Promise<Artifact[]> {
+    return this.artifacts.list();
+  }
+}
+
+// Records from before the digest was named for what it is
+function reviveArtifact({ sha256, ...artifact }: Artifact & { sha256?: string }): Artifact {
+  return { ...artifact, compositeSha256: artifact.compositeSha256 ?? sha256 };
+}
+
+/**
+ * Create the artifact store selected by ARTIFACT_STORE
+ */
+export function createArtifactStore(): ArtifactStore {
+  switch (config.ARTIFACT_STORE) {
+    case 'file':
+      return new FileArtifactStore(config.ARTIFACT_STORE_PATH);
+    case 'memory':
+    default:
+      return new MemoryArtifactStore();
+  }
+}
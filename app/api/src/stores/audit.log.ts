@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import type { AuditEvent } from '../types/upload.js';
+
+/**
+ * Append-only record of destructive operations on uploads
+ */
+export interface AuditLog {
+  record(event: AuditEvent): Promise<void>;
+  list(filter?: { uploadId?: string }): Promise<AuditEvent[]>;
+}
+
+/**
+ * In-process log. Events are lost when the process exits.
+ */
+export class MemoryAuditLog implements AuditLog {
+  private events: AuditEvent[] = [];
+
+  async record(event: AuditEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  async list(filter: { uploadId?: string } = {}): Promise<AuditEvent[]> {
+    return this.events.filter((e) => !filter.uploadId || e.uploadId === filter.uploadId);
+  }
+}
+
+/**
+ * Durable log appending one JSON line per event to a file
+ */
+export class FileAuditLog implements AuditLog {
+  private appending: Promise<void> = Promise.resolve();
+
+  constructor(private file: string) {}
+
+  async record(event: AuditEvent): Promise<void> {
+    this.appending = this.appending.catch(() => {}).then(async () => {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.appendFile(this.file, `${JSON.stringify(event)}\n`);
+    });
+    return this.appending;
+  }
+
+  async list(filter: { uploadId?: string } = {}): Promise<AuditEvent[]> {
+    let contents: string;
+
+    try {
+      contents = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as AuditEvent)
+      .filter((e) => !filter.uploadId || e.uploadId === filter.uploadId);
+  }
+}
+
+/**
+ * Create the audit log selected by AUDIT_LOG
+ */
+export function createAuditLog(): AuditLog {
+  switch (config.AUDIT_LOG) {
+    case 'file':
+      return new FileAuditLog(config.AUDIT_LOG_PATH);
+    case 'memory':
+    default:
+      return new MemoryAuditLog();
+  }
+}
@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+import { config } from '../config/index.js';
+import { JsonDirectoryStore } from './json-directory.store.js';
+import type { ContentIndexEntry } from '../types/upload.js';
+
+/**
+ * Index of stored objects by content digest, used to skip re-uploads.
+ *
+ * Entries are scoped to the principal that uploaded them, so a digest alone
+ * never grants access to another principal's object.
+ */
+export interface ContentIndex {
+  get(owner: string | undefined, compositeSha256: string): Promise<ContentIndexEntry | null>;
+  save(entry: ContentIndexEntry): Promise<void>;
+  delete(owner: string | undefined, compositeSha256: string): Promise<void>;
+}
+
+/**
+ * In-process index. Entries are lost when the process exits.
+ */
+export class MemoryContentIndex implements ContentIndex {
+  private entries = new Map<string, ContentIndexEntry>();
+
+  async get(owner: string | undefined, compositeSha256: string): Promise<ContentIndexEntry | null> {
+    return this.entries.get(indexKey(owner, compositeSha256)) || null;
+  }
+
+  async save(entry: ContentIndexEntry): Promise<void> {
+    this.entries.set(indexKey(entry.owner, entry.compositeSha256), entry);
+  }
+
+  async delete(owner: string | undefined, compositeSha256: string): Promise<void> {
+    this.entries.delete(indexKey(owner, compositeSha256));
+  }
+}
+
+/**
+ * Durable index writing one JSON document per entry to a directory
+ */
+export class FileContentIndex implements ContentIndex {
+  private entries: JsonDirectoryStore<ContentIndexEntry>;
+
+  constructor(directory: string) {
+    this.entries = new JsonDirectoryStore(directory, (entry) => indexKey(entry.owner, entry.compositeSha256), 'content index entries');
+  }
+
+  get(owner: string | undefined, compositeSha256: string): Promise<ContentIndexEntry | null> {
+    return this.entries.get(indexKey(owner, compositeSha256));
+  }
+
+  save(entry: ContentIndexEntry): Promise<void> {
+    return this.entries.save(entry);
+  }
+
+  delete(owner: string | undefined, compositeSha256: string): Promise<void> {
+    return this.entries.delete(indexKey(owner, compositeSha256));
+  }
+}
+
+// Hashed, so owners and digests of any characters make safe file names
+function indexKey(owner: string | undefined, compositeSha256: string): string {
+  return createHash('sha256').update(`${owner ?? ''}\n${compositeSha256}`).digest('hex');
+}
+
+/**
+ * Create the content index selected by CONTENT_INDEX_STORE
+ */
+export function createContentIndex(): ContentIndex {
+  switch (config.CONTENT_INDEX_STORE) {
+    case 'file':
+      return new FileContentIndex(config.CONTENT_INDEX_PATH);
+    case 'memory':
+    default:
+      return new MemoryContentIndex();
+  }
+}
@@ -0,0 +1,56 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JsonDirectoryStore } from './json-directory.store.js';
+
+interface Entry {
+  id: string;
+  value: number;
+}
+
+describe('JsonDirectoryStore', () => {
+  let directory: string;
+
+  const open = () => new JsonDirectoryStore<Entry>(directory, (record) => record.id, 'records');
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'json-store-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps records across instances', async () => {
+    await open().save({ id: 'a', value: 1 });
+
+    expect(await open().get('a')).toEqual({ id: 'a', value: 1 });
+  });
+
+  it('keeps the last of concurrent writes to the same record', async () => {
+    const store = open();
+    await Promise.all([1, 2, 3].map((value) => store.save({ id: 'a', value })));
+
+    expect(await open().get('a')).toEqual({ id: 'a', value: 3 });
+    expect(await readdir(directory)).toEqual(['a.json']);
+  });
+
+  it('removes deleted records from disk', async () => {
+    const store = open();
+    await store.save({ id: 'a', value: 1 });
+    await store.delete('a');
+
+    expect(await open().list()).toEqual([]);
+  });
+
+  it('skips unreadable files', async () => {
+    await writeFile(path.join(directory, 'broken.json'), '{');
+    await writeFile(path.join(directory, 'b.json'), JSON.stringify({ id: 'b', value: 2 }));
+
+    expect(await open().list()).toEqual([{ id: 'b', value: 2 }]);
+  });
+});
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Records kept as one JSON document each in a directory, the durable backend
+ * of the file session, artifact, webhook and content index stores.
+ *
+ * All records are loaded into memory on first access, so reads never touch
+ * the disk. Writes for the same key are serialized and replace the file
+ * atomically, so a crash mid-write leaves the previous version intact.
+ */
+export class JsonDirectoryStore<T> {
+  private records = new Map<string, T>();
+  private writes = new Map<string, Promise<void>>();
+  private loaded?: Promise<void>;
+
+  /**
+   * `keyOf` names a record's file, so keys must be safe file names.
+   * `label` describes the records in log messages, e.g. `upload sessions`.
+   * `revive` upgrades records written by older versions as they are loaded.
+   * `persisted` picks what of a record is written, for fields that must only
+   * ever be held in memory.
+   */
+  constructor(
+    private directory: string,
+    private keyOf: (record: T) => string,
+    private label: string,
+    private revive: (record: T) => T = (record) => record,
+    private persisted: (record: T) => unknown = (record) => record
+  ) {}
+
+  async get(key: string): Promise<T | null> {
+    await this.load();
+    return this.records.get(key) || null;
+  }
+
+  async save(record: T): Promise<void> {
+    await this.load();
+    const key = this.keyOf(record);
+    this.records.set(key, record);
+    await this.enqueue(key, async () => {
+      const file = this.fileFor(key);
+      const tmpFile = `${file}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(this.persisted(record)));
+      await fs.rename(tmpFile, file);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.load();
+    if (!this.records.delete(key)) return;
+    await this.enqueue(key, () => fs.rm(this.fileFor(key), { force: true }));
+  }
+
+  async list(): Promise<T[]> {
+    await this.load();
+    return Array.from(this.records.values());
+  }
+
+  private load(): Promise<void> {
+    this.loaded ||= (async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      const files = await fs.readdir(this.directory);
+
+      for (const file of files.filter((f) => f.endsWith('.json'))) {
+        try {
+          const record = this.revive(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')));
+          this.records.set(this.keyOf(record), record);
+        } catch (error) {
+          console.error(`Skipping unreadable file ${file} in ${this.directory}:`, error);
+        }
+      }
+
+      console.log(`Loaded ${this.records.size} ${this.label} from ${this.directory}`);
+    })();
+    return this.loaded;
+  }
+
+  private enqueue(key: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(key) || Promise.resolve();
+    const next = previous.catch(() => {}).then(write);
+    this.writes.set(key, next);
+    return next.finally(() => {
+      if (this.writes.get(key) === next) {
+        this.writes.delete(key);
+      }
+    });
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
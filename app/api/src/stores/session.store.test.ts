@@ -0,0 +1,47 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../config/index.js';
+import type { UploadSession } from '../types/upload.js';
+import { FileSessionStore } from './session.store.js';
+
+const customerKey = Buffer.alloc(32, 7).toString('base64');
+
+const session = {
+  uploadId: 'u1',
+  fileName: 'a.bin',
+  s3Key: 'uploads/u1/a.bin',
+  encryption: { mode: 'SSE-C', customerKey },
+} as UploadSession;
+
+describe('FileSessionStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'session-store-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps SSE-C keys in memory only', async () => {
+    const store = new FileSessionStore(directory);
+    await store.save(structuredClone(session));
+
+    expect((await store.get('u1'))?.encryption?.customerKey).toBe(customerKey);
+    expect(await readFile(path.join(directory, 'u1.json'), 'utf8')).not.toContain(customerKey);
+    expect((await new FileSessionStore(directory).get('u1'))?.encryption).toEqual({ mode: 'SSE-C' });
+  });
+
+  it('caps sessions saved without maxExpiresAt at the maximum lifetime', async () => {
+    await writeFile(path.join(directory, 'u1.json'), JSON.stringify({ ...session, createdAt: 1000 }));
+
+    const revived = await new FileSessionStore(directory).get('u1');
+
+    expect(revived?.maxExpiresAt).toBe(1000 + config.UPLOAD_MAX_LIFETIME * 1000);
+  });
+});
@@ -0,0 +1,109 @@
+import { config } from '../config/index.js';
+import { JsonDirectoryStore } from './json-directory.store.js';
+import type { UploadSession } from '../types/upload.js';
+
+/**
+ * Persistence for upload sessions.
+ *
+ * Sessions returned by `get`/`list` may be mutated in place; callers must
+ * `save` them afterwards for the change to become durable.
+ */
+export interface SessionStore {
+  get(uploadId: string): Promise<UploadSession | null>;
+  save(session: UploadSession): Promise<void>;
+  delete(uploadId: string): Promise<void>;
+  list(): Promise<UploadSession[]>;
+}
+
+/**
+ * In-process store. Sessions are lost when the process exits.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, UploadSession>();
+
+  async get(uploadId: string): Promise<UploadSession | null> {
+    return this.sessions.get(uploadId) || null;
+  }
+
+  async save(session: UploadSession): Promise<void> {
+    this.sessions.set(session.uploadId, session);
+  }
+
+  async delete(uploadId: string): Promise<void> {
+    this.sessions.delete(uploadId);
+  }
+
+  async list(): Promise<UploadSession[]> {
+    return Array.from(this.sessions.values());
+  }
+}
+
+/**
+ * Durable store writing one JSON document per session to a directory.
+ * SSE-C customer keys are kept in memory only, so they are lost on restart.
+ */
+export class FileSessionStore implements SessionStore {
+  private sessions: JsonDirectoryStore<UploadSession>;
+
+  constructor(directory: string) {
+    this.sessions = new JsonDirectoryStore(
+      directory,
+      (session) => session.uploadId,
+      'upload sessions',
+      reviveSession,
+      withoutCustomerKey
+    );
+  }
+
+  get(uploadId: string): Promise<UploadSession | null> {
+    return this.sessions.get(uploadId);
+  }
+
+  save(session: UploadSession): Promise<void> {
+    return this.sessions.save(session);
+  }
+
+  delete(uploadId: string): Promise<void> {
+    return this.sessions.delete(uploadId);
+  }
+
+  list(): Promise<UploadSession[]> {
+    return this.sessions.list();
+  }
+}
+
+// Sessions saved by older versions
+function reviveSession({
+  sha256,
+  expectedSha256,
+  ...session
+}: UploadSession & { sha256?: string; expectedSha256?: string }): UploadSession {
+  return {
+    ...session,
+    compositeSha256: session.compositeSha256 ?? sha256,
+    expectedCompositeSha256: session.expectedCompositeSha256 ?? expectedSha256,
+    maxExpiresAt: session.maxExpiresAt ?? session.createdAt + config.UPLOAD_MAX_LIFETIME * 1000,
+  };
+}
+
+function withoutCustomerKey(session: UploadSession): UploadSession {
+  if (!session.encryption?.customerKey) {
+    return session;
+  }
+
+  const { customerKey: _customerKey, ...encryption } = session.encryption;
+  return { ...session, encryption };
+}
+
+/**
+ * Create the session store selected by SESSION_STORE
+ */
+export function createSessionStore(): SessionStore {
+  switch (config.SESSION_STORE) {
+    case 'file':
+      return new FileSessionStore(config.SESSION_STORE_PATH);
+    case 'memory':
+    default:
+      return new MemorySessionStore();
+  }
+}
@@ -0,0 +1,77 @@
+import { config } from '../config/index.js';
+import { JsonDirectoryStore } from './json-directory.store.js';
+import type { WebhookDelivery } from '../types/upload.js';
+
+/**
+ * Persistence for webhook deliveries, which double as the retry queue
+ */
+export interface WebhookStore {
+  get(id: string): Promise<WebhookDelivery | null>;
+  save(delivery: WebhookDelivery): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<WebhookDelivery[]>;
+}
+
+/**
+ * In-process store. Pending deliveries are lost when the process exits.
+ */
+export class MemoryWebhookStore implements WebhookStore {
+  private deliveries = new Map<string, WebhookDelivery>();
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    return this.deliveries.get(id) || null;
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, delivery);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.deliveries.delete(id);
+  }
+
+  async list(): Promise<WebhookDelivery[]> {
+    return Array.from(this.deliveries.values());
+  }
+}
+
+/**
+ * Durable store writing one JSON document per delivery to a directory, so
+ * pending retries survive restarts
+ */
+export class FileWebhookStore implements WebhookStore {
+  private deliveries: JsonDirectoryStore<WebhookDelivery>;
+
+  constructor(directory: string) {
+    this.deliveries = new JsonDirectoryStore(directory, (delivery) => delivery.id, 'webhook deliveries');
+  }
+
+  get(id: string): Promise<WebhookDelivery | null> {
+    return this.deliveries.get(id);
+  }
+
+  save(delivery: WebhookDelivery): Promise<void> {
+    return this.deliveries.save(delivery);
+  }
+
+  delete(id: string): Promise<void> {
+    return this.deliveries.delete(id);
+  }
+
+  list(): Promise<WebhookDelivery[]> {
+    return this.deliveries.list();
+  }
+}
+
+/**
+ * Create the webhook store selected by WEBHOOK_STORE
+ */
+export function createWebhookStore(): WebhookStore {
+  switch (config.WEBHOOK_STORE) {
+    case 'file':
+      return new FileWebhookStore(config.WEBHOOK_STORE_PATH);
+    case 'memory':
+    default:
+      return new MemoryWebhookStore();
+  }
+}
@@ -1,3 +1,5 @@
+export type UploadMode = 'proxy' | 'direct';
+
 export interface UploadSession {
   uploadId: string;
   fileName: string;
@@ -7,16 +9,257 @@ export interface UploadSession {
   totalChunks: number;
   s3Key: string;
   s3UploadId: string;
+  uploadMode: UploadMode;
+  owner?: string; // ID of the principal that initiated the upload
   uploadedParts: UploadedPart[];
-  status: 'pending' | 'uploading' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'uploading' | 'scanning' | 'completed' | 'quarantined' | 'failed' | 'cancelled';
   metadata?: Record<string, string>;
+  properties?: ObjectProperties;
+  encryption?: UploadEncryption; // Unknown for sessions recovered by older versions
+  expectedCompositeSha256?: string; // Composite digest declared by the client at initiation
+  compositeSha256?: string; // Composite digest verified at completion
+  scan?: ScanVerdict; // Set once the assembled file has been scanned
+  completedAt?: number;
+  webhooks?: WebhookSubscription[]; // In addition to the global WEBHOOK_URLS
   createdAt: number;
-  expiresAt: number;
+  expiresAt: number; // Moved out by every uploaded part and heartbeat
+  maxExpiresAt: number; // expiresAt never moves past this
 }
 
 export interface UploadedPart {
   partNumber: number;
   etag: string;
+  checksum?: string; // Base64 SHA-256 of the part, verified by S3
+  size?: number; // Bytes, as reported by storage
+}
+
+export type UploadEventName =
+  | 'upload.completed'
+  | 'upload.failed'
+  | 'upload.cancelled'
+  | 'upload.expired'
+  | 'upload.quarantined';
+
+// Events emitted by UploadService as sessions change
+export type UploadServiceEvents = {
+  'upload.initiated': [session: UploadSession];
+  'upload.completed': [session: UploadSession, result: CompleteUploadResult];
+  'upload.failed': [session: UploadSession, error: string];
+  'upload.cancelled': [session: UploadSession];
+  'upload.expired': [session: UploadSession];
+  'upload.quarantined': [session: UploadSession, scan: ScanVerdict];
+  'part.uploaded': [session: UploadSession, part: UploadedPart];
+  'upload.extended': [session: UploadSession];
+  'status.changed': [session: UploadSession, previous: UploadSession['status']];
+};
+
+export interface WebhookSubscription {
+  url: string;
+  events?: UploadEventName[]; // All events when omitted
+  secret?: string; // Overrides WEBHOOK_SECRET for signing
+}
+
+export interface WebhookAttempt {
+  at: number;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: UploadEventName;
+  url: string;
+  uploadId: string;
+  owner?: string;
+  secret?: string; // Never returned by the API
+  body: string; // Exact JSON that is signed and sent
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  nextAttemptAt?: number;
+  createdAt: number;
+}
+
+export interface InitiateUploadOptions extends ObjectProperties {
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  chunkSize?: number;
+  metadata?: Record<string, string>;
+  uploadMode?: UploadMode;
+  encryption?: UploadEncryption;
+  compositeSha256?: string;
+  owner?: string;
+  webhooks?: WebhookSubscription[];
+}
+
+export type StorageClass = 'STANDARD' | 'INTELLIGENT_TIERING' | 'GLACIER_IR';
+
+// Settings an object is stored with, besides its content type and metadata
+export interface ObjectProperties {
+  tags?: Record<string, string>;
+  storageClass?: StorageClass;
+  cacheControl?: string; // Cache-Control header the object is served with
+  contentDisposition?: string; // Content-Disposition header the object is served with
+}
+
+export type EncryptionMode = 'none' | 'SSE-S3' | 'SSE-KMS' | 'SSE-C';
+
+// Server-side encryption of an object
+export interface UploadEncryption {
+  mode: EncryptionMode;
+  kmsKeyId?: string; // SSE-KMS; the AWS managed key when omitted
+  customerKey?: string; // SSE-C; base64 256-bit key, never returned by the API
+}
+
+export interface CompleteUploadResult {
+  s3Key: string;
+  s3Url: string;
+  fileSize: number;
+  compositeSha256: string;
+  scan?: ScanVerdict;
+  completedAt: number;
+}
+
+// Outcome of scanning an assembled file for malware
+export interface ScanVerdict {
+  verdict: 'clean' | 'infected';
+  signature?: string; // Name of the malware found
+  scanner: string;
+  scannedAt: number;
+}
+
+// An object already stored for some content, found by its digest
+export interface ContentIndexEntry {
+  compositeSha256: string; // Composite digest of the object
+  owner?: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  s3Key: string;
+  uploadId: string; // Session that stored the object
+  encryption?: UploadEncryption; // Without the customer key; none when absent
+  completedAt: number;
+}
+
+// A completed upload
+export interface Artifact {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  s3Key: string;
+  compositeSha256: string;
+  metadata?: Record<string, string>;
+  owner?: string; // Principal that uploaded it
+  createdAt: number; // When the upload was initiated
+  completedAt: number;
+  encryption?: UploadEncryption; // Without the customer key; unknown for artifacts recorded by older versions
+  deletedAt?: number; // Soft-deleted: hidden from reads until restored or purged
+  deletedBy?: string;
+  purgeAt?: number; // When the object will be removed from storage
+}
+
+export type AuditAction = 'delete' | 'restore' | 'purge';
+
+export interface AuditEvent {
+  at: number;
+  action: AuditAction;
+  principal: string; // 'system' for scheduled purges
+  uploadId: string;
+  s3Key: string;
+  fileName: string;
+  owner?: string;
+}
+
+export type ArtifactSortField = 'completedAt' | 'createdAt' | 'fileName' | 'fileSize';
+
+export interface ListArtifactsQuery {
+  limit: number;
+  cursor?: string; // Opaque cursor from a previous page
+  sort: ArtifactSortField;
+  order: 'asc' | 'desc';
+  namePrefix?: string;
+  completedAfter?: number;
+  completedBefore?: number;
+  metadata?: Record<string, string>; // Every pair must match
+  owner?: string;
+}
+
+export interface ArtifactPage {
+  items: Artifact[];
+  nextCursor: string | null;
+}
+
+export interface RecoverUploadOptions {
+  s3Key: string;
+  s3UploadId: string;
+  fileName?: string;
+  fileSize?: number;
+  fileType?: string;
+  chunkSize?: number;
+  uploadMode?: UploadMode;
+  // Not recorded in storage, so they must be declared again
+  encryption?: UploadEncryption;
+  compositeSha256?: string;
+  webhooks?: WebhookSubscription[];
+  owner?: string;
+}
+
+export interface ReconcileResult {
+  session: UploadSession;
+  added: number[]; // Part numbers found in storage but not in the session
+  removed: number[]; // Part numbers in the session but missing from storage
+  changed: number[]; // Part numbers whose ETag differed
+}
+
+export interface QuotaUsage {
+  principal: string;
+  concurrentSessions: { used: number; limit: number };
+  bytesInFlight: { used: number; limit: number };
+  bytesToday: { used: number; limit: number; resetsAt: number };
+}
+
+// Which files may be uploaded; empty allow lists allow everything not denied
+export interface FileTypePolicy {
+  allowedTypes: string[];
+  deniedTypes: string[];
+  allowedExtensions: string[];
+  deniedExtensions: string[];
+  maxFileSize: number;
+  maxSizes: Record<string, number>; // Per MIME type or family (image/*)
+  contentSniffing: boolean; // Whether content is checked against the declared type
+}
+
+export interface SignedPartUrl {
+  partNumber: number;
+  url: string;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  etag: string;
+  lastModified: number;
+}
+
+// Inclusive byte range
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface PendingMultipartUpload {
+  key: string;
+  uploadId: string;
+  initiatedAt: number;
+}
+
+export interface SweepResult {
+  dryRun: boolean;
+  olderThan: number; // Cutoff timestamp; only uploads initiated before it are eligible
+  scanned: number;
+  aborted: PendingMultipartUpload[]; // Aborted, or would be aborted on a dry run
+  failed: (PendingMultipartUpload & { error: string })[];
 }
 
 export interface ErrorResponse {
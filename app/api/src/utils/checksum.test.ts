@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { compositeSha256, sha256Base64 } from './checksum.js';
+
+describe('sha256Base64', () => {
+  it('encodes the digest in base64', () => {
+    expect(sha256Base64(Buffer.from('abc'))).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+  });
+});
+
+describe('compositeSha256', () => {
+  const parts = [Buffer.from('first part'), Buffer.from('second part')];
+  const checksums = parts.map(sha256Base64);
+
+  it('hashes the concatenated binary part digests and appends the part count', () => {
+    const digests = Buffer.concat(parts.map((part) => createHash('sha256').update(part).digest()));
+    const expected = createHash('sha256').update(digests).digest('base64');
+
+    expect(compositeSha256(checksums)).toBe(`${expected}-2`);
+  });
+
+  it('is not the SHA-256 of the file', () => {
+    const [digest] = compositeSha256(checksums).split('-');
+
+    expect(digest).not.toBe(sha256Base64(Buffer.concat(parts)));
+  });
+
+  it('changes with the part order and size', () => {
+    const whole = compositeSha256([sha256Base64(Buffer.concat(parts))]);
+
+    expect(compositeSha256([...checksums].reverse())).not.toBe(compositeSha256(checksums));
+    expect(whole).not.toBe(compositeSha256(checksums));
+    expect(whole.endsWith('-1')).toBe(true);
+  });
+});
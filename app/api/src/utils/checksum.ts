@@ -0,0 +1,22 @@
+import { createHash } from 'crypto';
+
+/**
+ * Base64-encoded SHA-256 digest, the format S3 expects in `x-amz-checksum-sha256`
+ */
+export function sha256Base64(data: Buffer): string {
+  return createHash('sha256').update(data).digest('base64');
+}
+
+/**
+ * Composite SHA-256 of a multipart object, in the format S3 reports for
+ * multipart checksums: the SHA-256 of the concatenated binary part digests,
+ * base64-encoded and suffixed with `-<partCount>`.
+ *
+ * `partChecksums` are base64 part digests ordered by part number. This is
+ * not the SHA-256 of the object's bytes: `sha256sum` can't reproduce it, and
+ * the same file uploaded with another part size has another digest.
+ */
+export function compositeSha256(partChecksums: string[]): string {
+  const digests = Buffer.concat(partChecksums.map((c) => Buffer.from(c, 'base64')));
+  return `${sha256Base64(digests)}-${partChecksums.length}`;
+}
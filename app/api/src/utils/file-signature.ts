@@ -0,0 +1,128 @@
+// Bytes at the start of a file needed to recognise every signature below
+// (tar's magic sits at offset 257)
+export const SNIFF_LENGTH = 262;
+
+interface FileSignature {
+  // The first type is the canonical one; the rest are aliases or formats
+  // that share the container (docx is a zip, m4a an ISO media file)
+  types: string[];
+  matches: (head: Buffer) => boolean;
+}
+
+const at = (head: Buffer, offset: number, bytes: number[] | string) => {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return head.length >= offset + expected.length && head.subarray(offset, offset + expected.length).equals(expected);
+};
+
+const SIGNATURES: FileSignature[] = [
+  { types: ['image/png'], matches: (h) => at(h, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { types: ['image/jpeg', 'image/jpg', 'image/pjpeg'], matches: (h) => at(h, 0, [0xff, 0xd8, 0xff]) },
+  { types: ['image/gif'], matches: (h) => at(h, 0, 'GIF87a') || at(h, 0, 'GIF89a') },
+  { types: ['image/webp'], matches: (h) => at(h, 0, 'RIFF') && at(h, 8, 'WEBP') },
+  // Two bytes alone would match text starting with "BM"; the reserved header fields are zero
+  { types: ['image/bmp', 'image/x-ms-bmp'], matches: (h) => at(h, 0, 'BM') && at(h, 6, [0, 0, 0, 0]) },
+  { types: ['image/tiff'], matches: (h) => at(h, 0, [0x49, 0x49, 0x2a, 0x00]) || at(h, 0, [0x4d, 0x4d, 0x00, 0x2a]) },
+  { types: ['image/x-icon', 'image/vnd.microsoft.icon'], matches: (h) => at(h, 0, [0x00, 0x00, 0x01, 0x00]) },
+  { types: ['application/pdf'], matches: (h) => at(h, 0, '%PDF-') },
+  {
+    types: [
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/java-archive',
+      'application/x-java-archive',
+      'application/epub+zip',
+      'application/vnd.android.package-archive',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/vnd.oasis.opendocument.text',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'application/vnd.oasis.opendocument.presentation',
+    ],
+    matches: (h) => at(h, 0, [0x50, 0x4b, 0x03, 0x04]) || at(h, 0, [0x50, 0x4b, 0x05, 0x06]),
+  },
+  {
+    // OLE compound files: legacy Office documents and installers
+    types: [
+      'application/x-ole-storage',
+      'application/msword',
+      'application/vnd.ms-excel',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.ms-outlook',
+      'application/x-msi',
+    ],
+    matches: (h) => at(h, 0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+  },
+  {
+    types: ['application/gzip', 'application/x-gzip', 'application/x-tgz', 'application/x-compressed-tar'],
+    matches: (h) => at(h, 0, [0x1f, 0x8b]),
+  },
+  { types: ['application/x-bzip2'], matches: (h) => at(h, 0, 'BZh') },
+  { types: ['application/x-xz'], matches: (h) => at(h, 0, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]) },
+  { types: ['application/zstd'], matches: (h) => at(h, 0, [0x28, 0xb5, 0x2f, 0xfd]) },
+  { types: ['application/x-7z-compressed'], matches: (h) => at(h, 0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+  { types: ['application/vnd.rar', 'application/x-rar-compressed'], matches: (h) => at(h, 0, 'Rar!\x1a\x07') },
+  { types: ['application/x-tar', 'application/x-gtar'], matches: (h) => at(h, 257, 'ustar') },
+  {
+    types: ['application/x-executable', 'application/x-elf', 'application/x-sharedlib'],
+    matches: (h) => at(h, 0, '\x7fELF'),
+  },
+  {
+    types: ['application/x-msdownload', 'application/vnd.microsoft.portable-executable', 'application/x-dosexec'],
+    matches: (h) => at(h, 0, 'MZ'),
+  },
+  {
+    types: ['application/x-mach-binary'],
+    matches: (h) =>
+      at(h, 0, [0xfe, 0xed, 0xfa, 0xce]) ||
+      at(h, 0, [0xfe, 0xed, 0xfa, 0xcf]) ||
+      at(h, 0, [0xce, 0xfa, 0xed, 0xfe]) ||
+      at(h, 0, [0xcf, 0xfa, 0xed, 0xfe]),
+  },
+  { types: ['application/wasm'], matches: (h) => at(h, 0, [0x00, 0x61, 0x73, 0x6d]) },
+  { types: ['application/vnd.sqlite3', 'application/x-sqlite3'], matches: (h) => at(h, 0, 'SQLite format 3\x00') },
+  {
+    // ISO base media files; the brand that follows tells them apart, but
+    // clients label them inconsistently
+    types: [
+      'video/mp4',
+      'video/quicktime',
+      'video/3gpp',
+      'audio/mp4',
+      'audio/x-m4a',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+    ],
+    matches: (h) => at(h, 4, 'ftyp'),
+  },
+  { types: ['video/webm', 'video/x-matroska', 'audio/webm'], matches: (h) => at(h, 0, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { types: ['audio/ogg', 'video/ogg', 'application/ogg'], matches: (h) => at(h, 0, 'OggS') },
+  { types: ['audio/flac', 'audio/x-flac'], matches: (h) => at(h, 0, 'fLaC') },
+  { types: ['audio/wav', 'audio/x-wav', 'audio/wave'], matches: (h) => at(h, 0, 'RIFF') && at(h, 8, 'WAVE') },
+  {
+    types: ['audio/mpeg'],
+    matches: (h) => at(h, 0, 'ID3') || (h.length >= 2 && h[0] === 0xff && (h[1] & 0xe6) === 0xe2),
+  },
+  { types: ['font/woff'], matches: (h) => at(h, 0, 'wOFF') },
+  { types: ['font/woff2'], matches: (h) => at(h, 0, 'wOF2') },
+];
+
+// Types whose content is recognised by its leading bytes
+const SIGNED_TYPES = new Set(SIGNATURES.flatMap((signature) => signature.types));
+
+/**
+ * Recognise a file from its first bytes. Returns every type the signature
+ * stands for (canonical type first), or null for content without a known
+ * signature, such as text.
+ */
+export function detectFileType(head: Buffer): string[] | null {
+  return SIGNATURES.find((signature) => signature.matches(head))?.types ?? null;
+}
+
+/**
+ * Whether content of a declared type is expected to start with a signature
+ */
+export function hasSignature(type: string): boolean {
+  return SIGNED_TYPES.has(type);
+}
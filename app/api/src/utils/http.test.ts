@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { etagMatches, ifRangeMatches, parseRange, redactQueryCredentials } from './http.js';
+
+describe('parseRange', () => {
+  it('parses closed, open and suffix ranges', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('clamps ranges that run past the end', () => {
+    expect(parseRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('serves the whole object for headers it does not handle', () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange('bytes=-', 1000)).toBeNull();
+    expect(parseRange('items=0-9', 1000)).toBeNull();
+    expect(parseRange('bytes=0-9,20-29', 1000)).toBeNull();
+    expect(parseRange('bytes=50-10', 1000)).toBeNull();
+  });
+
+  it('reports ranges outside the object as unsatisfiable', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-10', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('etagMatches', () => {
+  it('compares weakly against every listed tag', () => {
+    expect(etagMatches('"a", W/"b"', '"b"')).toBe(true);
+    expect(etagMatches('*', '"b"')).toBe(true);
+    expect(etagMatches('"a"', '"b"')).toBe(false);
+    expect(etagMatches(undefined, '"b"')).toBe(false);
+  });
+});
+
+describe('ifRangeMatches', () => {
+  const etag = '"abc"';
+  const lastModified = Date.UTC(2024, 0, 1, 12, 0, 0, 500);
+
+  it('allows the range without an If-Range header', () => {
+    expect(ifRangeMatches(undefined, etag, lastModified)).toBe(true);
+  });
+
+  it('requires a strong ETag match', () => {
+    expect(ifRangeMatches('"abc"', etag, lastModified)).toBe(true);
+    expect(ifRangeMatches('"other"', etag, lastModified)).toBe(false);
+    expect(ifRangeMatches('W/"abc"', etag, lastModified)).toBe(false);
+  });
+
+  it('compares dates at second precision', () => {
+    expect(ifRangeMatches('Mon, 01 Jan 2024 12:00:00 GMT', etag, lastModified)).toBe(true);
+    expect(ifRangeMatches('Mon, 01 Jan 2024 11:59:59 GMT', etag, lastModified)).toBe(false);
+    expect(ifRangeMatches('yesterday', etag, lastModified)).toBe(false);
+  });
+});
+
+describe('redactQueryCredentials', () => {
+  it('hides access tokens and API keys', () => {
+    expect(redactQueryCredentials('/api/upload/u1/events?access_token=a.b.c&x=1&api_key=k1')).toBe(
+      '/api/upload/u1/events?access_token=[REDACTED]&x=1&api_key=[REDACTED]'
+    );
+  });
+
+  it('leaves other URLs alone', () => {
+    expect(redactQueryCredentials('/api/upload/u1/events')).toBe('/api/upload/u1/events');
+    expect(redactQueryCredentials('/api/artifacts?my_access_token=1')).toBe('/api/artifacts?my_access_token=1');
+  });
+});
@@ -0,0 +1,100 @@
+import type { FastifyReply } from 'fastify';
+import { QuotaExceededError, type UploadError } from '../errors/upload.errors.js';
+import type { ByteRange } from '../types/upload.js';
+
+/**
+ * `Content-Disposition` header that downloads as `fileName`, with an ASCII
+ * fallback for clients that don't understand RFC 5987 `filename*`
+ */
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Parse a `Range` header against an object of `size` bytes.
+ *
+ * Returns null when the whole object should be served (no header, a unit
+ * other than bytes, or several ranges) and 'unsatisfiable' when the range
+ * lies entirely outside the object.
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(size - length, 0), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+
+  if (start >= size) return 'unsatisfiable';
+  if (end < start) return null;
+
+  return { start, end };
+}
+
+/**
+ * Whether an `If-None-Match` header matches an ETag (weak comparison)
+ */
+export function etagMatches(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+
+  const weak = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => weak(tag) === weak(etag));
+}
+
+/**
+ * Whether a `Range` request may be served given its `If-Range` header: the
+ * ETag must match strongly, or the object must not have changed since the date
+ */
+export function ifRangeMatches(header: string | undefined, etag: string, lastModified: number): boolean {
+  if (!header) return true;
+
+  const value = header.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !value.startsWith('W/') && value === etag;
+  }
+
+  const date = Date.parse(value);
+  return !Number.isNaN(date) && Math.floor(lastModified / 1000) * 1000 <= date;
+}
+
+/**
+ * Replace the values of `access_token` and `api_key` query parameters, so a
+ * URL can be logged without the credentials some routes accept there
+ */
+export function redactQueryCredentials(url: string): string {
+  return url.replace(/([?&](?:access_token|api_key)=)[^&#]*/gi, '$1[REDACTED]');
+}
+
+/**
+ * Send an UploadError with its status and code in the error envelope
+ */
+export function sendError<R extends FastifyReply>(reply: R, error: UploadError): R {
+  if (error.statusCode >= 500) {
+    reply.log.error(error);
+  }
+
+  if (error instanceof QuotaExceededError) {
+    reply.header('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  return reply.status(error.statusCode).send({
+    success: false,
+    error: error.message,
+    code: error.code,
+  }) as R;
+}
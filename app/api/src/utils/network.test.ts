@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { assertPublicHost, isNonPublicAddress } from './network.js';
+
+describe('isNonPublicAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.31.255.255',
+    '192.168.0.1',
+    '169.254.169.254', // Cloud metadata
+    '100.64.0.1',
+    '0.0.0.0',
+    '::',
+    '::1',
+    '::ffff:127.0.0.1',
+    'fd00:ec2::254',
+    'fe80::1',
+    '64:ff9b::a00:1', // NAT64 of 10.0.0.1
+    '64:ff9b::a9fe:a9fe', // NAT64 of 169.254.169.254
+    '2002:7f00:1::1', // 6to4 of 127.0.0.1
+    'not-an-ip',
+  ])('treats %s as internal', (address) => {
+    expect(isNonPublicAddress(address)).toBe(true);
+  });
+
+  it.each(['1.1.1.1', '172.32.0.1', '::ffff:8.8.8.8', '2606:4700:4700::1111'])('treats %s as public', (address) => {
+    expect(isNonPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('assertPublicHost', () => {
+  it('rejects hosts that resolve to internal addresses', async () => {
+    await expect(assertPublicHost('localhost')).rejects.toThrow('does not resolve to a public address');
+    await expect(assertPublicHost('169.254.169.254')).rejects.toThrow('does not resolve to a public address');
+    await expect(assertPublicHost('[::1]')).rejects.toThrow('does not resolve to a public address');
+  });
+
+  it('accepts public IP addresses', async () => {
+    await expect(assertPublicHost('1.1.1.1')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { lookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// Loopback, private, link-local (including cloud metadata endpoints),
+// shared, multicast and reserved ranges
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['64:ff9b::', 96], // NAT64, which embeds an IPv4 address
+  ['2002::', 16], // 6to4, which embeds an IPv4 address
+  ['fc00::', 7], // Unique local, e.g. fd00:ec2::254
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address can only be reached from inside a network.
+ * IPv4-mapped IPv6 addresses are judged by their IPv4 address.
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return NON_PUBLIC.check(mapped[1], 'ipv4');
+  }
+
+  const family = isIP(address);
+  return family === 0 || NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for outgoing requests that fails when a host resolves to any
+ * non-public address. Used as the `lookup` of a request, the check applies
+ * to the address actually connected to, so DNS rebinding can't slip past it.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some((a) => isNonPublicAddress(a.address))) {
+      callback(Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: 'ENOTPUBLIC' }), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Resolve a host and throw unless every address it resolves to is public
+ */
+export function assertPublicHost(hostname: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    publicOnlyLookup(hostname.replace(/^\[(.*)\]$/, '$1'), { all: true }, (error) => (error ? reject(error) : resolve()));
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  keyTemplatePrefix,
+  keyTemplateVariables,
+  renderKeyTemplate,
+  sanitizeKeySegment,
+  suffixKey,
+} from './object-key.js';
+
+describe('sanitizeKeySegment', () => {
+  it('keeps letters and numbers of any script', () => {
+    expect(sanitizeKeySegment('Übersicht 2024.pdf')).toBe('Übersicht_2024.pdf');
+    expect(sanitizeKeySegment('отчёт-1.txt')).toBe('отчёт-1.txt');
+  });
+
+  it('replaces separators and unsafe characters', () => {
+    expect(sanitizeKeySegment('a/b\\c?d#e.bin')).toBe('a_b_c_d_e.bin');
+    expect(sanitizeKeySegment('  tabs\tand  spaces  ')).toBe('tabs_and_spaces');
+  });
+
+  it('never produces . or .. segments', () => {
+    expect(sanitizeKeySegment('..')).toBe('_');
+    expect(sanitizeKeySegment('../etc/passwd')).toBe('_etc_passwd');
+    expect(sanitizeKeySegment('.env')).toBe('env');
+    expect(sanitizeKeySegment('')).toBe('_');
+  });
+
+  it('truncates long segments at a character boundary, keeping the extension', () => {
+    const segment = sanitizeKeySegment(`${'ü'.repeat(200)}.tar`);
+
+    expect(Buffer.byteLength(segment)).toBeLessThanOrEqual(255);
+    expect(segment).toMatch(/^ü+\.tar$/);
+  });
+});
+
+describe('keyTemplatePrefix', () => {
+  it('is the static directory before the first variable', () => {
+    expect(keyTemplatePrefix('uploads/{uploadId}/{fileName}')).toBe('uploads/');
+    expect(keyTemplatePrefix('/data/files/{yyyy}/{fileName}')).toBe('data/files/');
+    expect(keyTemplatePrefix('uploads/file-{uploadId}')).toBe('uploads/');
+  });
+
+  it('is empty without a static directory', () => {
+    expect(keyTemplatePrefix('{project}/{fileName}')).toBe('');
+    expect(keyTemplatePrefix('uploads-{uploadId}/{fileName}')).toBe('');
+  });
+});
+
+describe('keyTemplateVariables', () => {
+  it('lists every variable', () => {
+    expect(keyTemplateVariables('uploads/{ project }/{yyyy}/{fileName}')).toEqual(['project', 'yyyy', 'fileName']);
+  });
+});
+
+describe('renderKeyTemplate', () => {
+  it('fills in sanitized values', () => {
+    const key = renderKeyTemplate('/uploads/{project}/{ uploadId }/{fileName}', {
+      project: 'web/app',
+      uploadId: 'u1',
+      fileName: '../report 1.pdf',
+    });
+
+    expect(key).toBe('uploads/web_app/u1/_report_1.pdf');
+  });
+});
+
+describe('suffixKey', () => {
+  it('numbers the file name before its extension', () => {
+    expect(suffixKey('logs/build.log', 1)).toBe('logs/build-1.log');
+    expect(suffixKey('logs/build.tar.gz', 2)).toBe('logs/build-2.tar.gz');
+    expect(suffixKey('logs/v1.2/README', 3)).toBe('logs/v1.2/README-3');
+    expect(suffixKey('logs/.env', 4)).toBe('logs/.env-4');
+  });
+});
@@ -0,0 +1,81 @@
+// S3 rejects longer keys; counted in UTF-8 bytes
+export const MAX_KEY_LENGTH = 1024;
+
+// Longest path segment produced, in UTF-8 bytes; most filesystems allow 255
+const MAX_SEGMENT_LENGTH = 255;
+
+/**
+ * Make a value safe to use as one segment of an object key.
+ *
+ * Letters and numbers of any script are kept, so `Übersicht 2024.pdf` becomes
+ * `Übersicht_2024.pdf` rather than `_bersicht_2024.pdf`. Whitespace, path
+ * separators and characters S3 recommends avoiding become `_`, and leading
+ * dots are dropped so no segment reads as `.` or `..`.
+ */
+export function sanitizeKeySegment(value: string): string {
+  const sanitized = value
+    .trim()
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{M}\p{N}._\-()+=,@!']+/gu, '_')
+    .replace(/^\.+/, '');
+
+  return truncateSegment(sanitized) || '_';
+}
+
+/**
+ * Static part of a template up to its last `/` before the first variable,
+ * e.g. `uploads/` for `uploads/{uploadId}/{fileName}`
+ */
+export function keyTemplatePrefix(template: string): string {
+  const literal = template.replace(/^\/+/, '').split('{')[0];
+  return literal.slice(0, literal.lastIndexOf('/') + 1);
+}
+
+/**
+ * Names of the variables a template refers to
+ */
+export function keyTemplateVariables(template: string): string[] {
+  return [...template.matchAll(/\{([^{}]+)\}/g)].map((match) => match[1].trim());
+}
+
+/**
+ * Fill in a key template. Every value is sanitized as a single segment, so a
+ * value can't add directories of its own.
+ */
+export function renderKeyTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .replace(/^\/+/, '')
+    .replace(/\{([^{}]+)\}/g, (_match, name: string) => sanitizeKeySegment(values[name.trim()]));
+}
+
+/**
+ * Insert `-<n>` before a key's extension: `logs/build.tar.gz` becomes
+ * `logs/build-1.tar.gz`
+ */
+export function suffixKey(key: string, n: number): string {
+  const separator = key.lastIndexOf('/') + 1;
+  const name = key.slice(separator);
+  // The last extension, or the last two for tarballs; a leading dot isn't one
+  const match = /(\.tar)?\.[^.]+$/i.exec(name.slice(1));
+  const dot = match ? match.index + 1 : name.length;
+  const [base, extension] = [name.slice(0, dot), name.slice(dot)];
+
+  return `${key.slice(0, separator)}${base}-${n}${extension}`;
+}
+
+// Cut at a code point boundary; long extensions are kept only if short
+function truncateSegment(segment: string): string {
+  if (Buffer.byteLength(segment) <= MAX_SEGMENT_LENGTH) {
+    return segment;
+  }
+
+  const dot = segment.lastIndexOf('.');
+  const extension = dot > 0 && segment.length - dot <= 16 ? segment.slice(dot) : '';
+  let base = segment.slice(0, segment.length - extension.length);
+
+  while (Buffer.byteLength(base + extension) > MAX_SEGMENT_LENGTH) {
+    base = Array.from(base).slice(0, -1).join('');
+  }
+
+  return base + extension;
+}
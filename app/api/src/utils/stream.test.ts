@@ -0,0 +1,53 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { describe, expect, it } from 'vitest';
+import { ChecksumMismatchError, InvalidChunkError } from '../errors/upload.errors.js';
+import { sha256Base64 } from './checksum.js';
+import { PartVerifierStream } from './stream.js';
+
+const part = Buffer.from('0123456789'.repeat(1000));
+
+// Pipe chunks through a verifier and resolve with what reached the sink
+async function verify(chunks: Buffer[], expectedLength: number, expectedChecksum: string): Promise<Buffer> {
+  const received: Buffer[] = [];
+  const sink = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      received.push(chunk);
+      callback();
+    },
+  });
+
+  await pipeline(Readable.from(chunks), new PartVerifierStream(3, expectedLength, expectedChecksum), sink);
+  return Buffer.concat(received);
+}
+
+describe('PartVerifierStream', () => {
+  it('passes a matching part through unchanged', async () => {
+    const chunks = [part.subarray(0, 4096), part.subarray(4096)];
+
+    await expect(verify(chunks, part.length, sha256Base64(part))).resolves.toEqual(part);
+  });
+
+  it('fails with a ChecksumMismatchError when the digest differs', async () => {
+    const corrupted = Buffer.from(part);
+    corrupted[10] ^= 0xff;
+
+    const result = verify([corrupted], part.length, sha256Base64(part));
+
+    await expect(result).rejects.toBeInstanceOf(ChecksumMismatchError);
+  });
+
+  it('fails as soon as the part grows past the expected length', async () => {
+    const result = verify([part, Buffer.from('x')], part.length, sha256Base64(part));
+
+    await expect(result).rejects.toBeInstanceOf(InvalidChunkError);
+    await expect(result).rejects.toThrow(`Part 3 is larger than the expected ${part.length} bytes`);
+  });
+
+  it('fails when the part is short', async () => {
+    const result = verify([part.subarray(1)], part.length, sha256Base64(part));
+
+    await expect(result).rejects.toBeInstanceOf(InvalidChunkError);
+    await expect(result).rejects.toThrow(`Part 3 has ${part.length - 1} bytes, expected ${part.length}`);
+  });
+});
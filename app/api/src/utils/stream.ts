@@ -0,0 +1,128 @@
+import { createHash, type Hash } from 'crypto';
+import { Transform, type TransformCallback } from 'stream';
+import { ChecksumMismatchError, InvalidChunkError } from '../errors/upload.errors.js';
+
+/**
+ * Pass-through stream that hashes and counts the bytes flowing through it
+ */
+export class DigestStream extends Transform {
+  bytes = 0;
+  private hash: Hash;
+
+  constructor(algorithm: string) {
+    super();
+    this.hash = createHash(algorithm);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    this.hash.update(chunk);
+    callback(null, chunk);
+  }
+
+  digest(encoding: 'hex' | 'base64'): string {
+    return this.hash.digest(encoding);
+  }
+}
+
+/**
+ * Pass-through stream that verifies a part's length and base64 SHA-256 as it
+ * ends. On mismatch the stream errors before signalling completion, so
+ * whatever consumes it (an S3 request, a file write) fails instead of
+ * storing a bad part.
+ */
+export class PartVerifierStream extends DigestStream {
+  constructor(
+    private partNumber: number,
+    private expectedLength: number,
+    private expectedChecksum: string
+  ) {
+    super('sha256');
+  }
+
+  _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.bytes + chunk.length > this.expectedLength) {
+      callback(new InvalidChunkError(`Part ${this.partNumber} is larger than the expected ${this.expectedLength} bytes`));
+      return;
+    }
+    super._transform(chunk, encoding, callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.bytes !== this.expectedLength) {
+      callback(
+        new InvalidChunkError(`Part ${this.partNumber} has ${this.bytes} bytes, expected ${this.expectedLength}`)
+      );
+      return;
+    }
+
+    if (this.digest('base64') !== this.expectedChecksum) {
+      callback(new ChecksumMismatchError(this.partNumber));
+      return;
+    }
+
+    callback();
+  }
+}
+
+/**
+ * Pass-through stream that holds back the first `length` bytes (or the whole
+ * body, if shorter) until `inspect` has seen them. If `inspect` throws, the
+ * stream errors with its error, recorded as `rejection`, before any of those
+ * bytes reach whatever consumes it.
+ */
+export class SniffStream extends Transform {
+  rejection?: Error;
+  private head: Buffer[] = [];
+  private headLength = 0;
+  private inspected = false;
+
+  constructor(
+    private length: number,
+    private inspect: (head: Buffer) => void
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    if (this.inspected) {
+      callback(null, chunk);
+      return;
+    }
+
+    this.head.push(chunk);
+    this.headLength += chunk.length;
+
+    if (this.headLength < this.length) {
+      callback();
+      return;
+    }
+
+    this.release(callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.inspected) {
+      callback();
+      return;
+    }
+
+    this.release(callback);
+  }
+
+  private release(callback: TransformCallback): void {
+    const buffered = Buffer.concat(this.head);
+    this.head = [];
+    this.inspected = true;
+
+    try {
+      this.inspect(buffered.subarray(0, this.length));
+    } catch (error) {
+      this.rejection = error as Error;
+      callback(this.rejection);
+      return;
+    }
+
+    callback(null, buffered);
+  }
+}
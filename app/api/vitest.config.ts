@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Config is parsed on import; tests must not need AWS or a .env file
+    env: {
+      NODE_ENV: 'test',
+      STORAGE_DRIVER: 'fs',
+    },
+  },
+});
@@ -1,12 +1,20 @@
-import { useState } from 'react';
-import type { UploadFile } from '../types/upload';
+import { useEffect, useState } from 'react';
+import type { FileTypePolicy, UploadFile } from '../types/upload';
 import { createUploadFile } from '../utils/fileChunking';
-import { ChunkUploadManager } from '../services/uploadService';
+import { validateFile } from '../utils/fileValidation';
+import { ChunkUploadManager, getFileTypePolicy } from '../services/uploadService';
 import UploadProgress from './UploadProgress';
 
 const FileUploader = () => {
   const [file, setFile] = useState<UploadFile | null>(null);
   const [manager] = useState(() => new ChunkUploadManager());
+  const [policy, setPolicy] = useState<FileTypePolicy | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
+
+  // Without the policy files are still checked by the API when the upload starts
+  useEffect(() => {
+    getFileTypePolicy().then(setPolicy).catch(() => {});
+  }, []);
 
   manager.setOnChange((f) => setFile({ ...f }));
 
@@ -16,6 +24,9 @@ const FileUploader = () => {
     const selected = e.target.files?.[0];
     e.target.value = '';
     if (!selected || uploading) return;
+    const reason = policy && validateFile(selected, policy);
+    setRejection(reason || null);
+    if (reason) return;
     const uploadFile = createUploadFile(selected, manager.getConfig().chunkSize);
     setFile(uploadFile);
     manager.uploadFile(uploadFile);
@@ -59,6 +70,8 @@ const FileUploader = () => {
           </svg>
           Choose File
         </button>
+
+        {rejection && <p className="mt-4 text-sm text-red-600">{rejection}</p>}
       </div>
 
       {/* Upload Progress */}
@@ -10,7 +10,7 @@ interface UploadProgressProps {
 }
 
 const UploadProgress = ({ uploadFile, onRetry, onPause, onResume, onRemove }: UploadProgressProps) => {
-  const { file, chunks, progress, status, totalSize } = uploadFile;
+  const { file, chunks, progress, status, totalSize, scan } = uploadFile;
   
   const successChunks = chunks.filter(c => c.status === 'success').length;
   const failedChunks = chunks.filter(c => c.status === 'error').length;
@@ -132,8 +132,8 @@ const UploadProgress = ({ uploadFile, onRetry, onPause, onResume, onRemove }: Up
       <div className="flex items-center justify-between text-sm">
         <div className="flex items-center space-x-4">
           <span className={getStatusColor()}>
-            {status === 'completed' && 'Completed'}
-            {status === 'failed' && 'Failed'}
+            {status === 'completed' && (uploadFile.deduplicated ? 'Already uploaded' : 'Completed')}
+            {status === 'failed' && (scan?.verdict === 'infected' ? 'Quarantined' : 'Failed')}
             {status === 'uploading' && `Uploading ${Math.round(progress)}%`}
             {status === 'pending' && 'Pending'}
             {status === 'paused' && 'Paused'}
@@ -293,6 +293,22 @@ const UploadProgress = ({ uploadFile, onRetry, onPause, onResume, onRemove }: Up
         </div>
       )}
 
+      {scan?.verdict === 'clean' && (
+        <div className="mt-3 bg-green-50 border border-green-200 rounded-lg p-3">
+          <p className="text-sm text-green-800">
+            <strong>No malware found.</strong> Scanned by {scan.scanner} on {new Date(scan.scannedAt).toLocaleString()}.
+          </p>
+        </div>
+      )}
+
+      {scan?.verdict === 'infected' && (
+        <div className="mt-3 bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-800">
+            <strong>Malware detected{scan.signature ? `: ${scan.signature}` : ''}.</strong> The file has been quarantined and can't be downloaded.
+          </p>
+        </div>
+      )}
+
     </div>
   );
 };
@@ -5,11 +5,15 @@
 export const config = {
   apiUrl: import.meta.env.VITE_API_URL || 'http://localhost:3001/api',
   apiTimeout: Number(import.meta.env.VITE_API_TIMEOUT) || 30000,
+  // JWT sent as a bearer token; can also be set at runtime with setAuthToken()
+  apiToken: (import.meta.env.VITE_API_TOKEN as string | undefined) || undefined,
   
   // Upload defaults
   defaultChunkSize: 5 * 1024 * 1024, // 5MB
   defaultMaxParallelChunks: 3,
   defaultMaxRetries: 3,
   defaultRetryDelay: 1000,
+  // 'proxy' streams chunks through the API, 'direct' PUTs them to presigned S3 URLs
+  defaultUploadMode: (import.meta.env.VITE_UPLOAD_MODE === 'direct' ? 'direct' : 'proxy') as 'proxy' | 'direct',
 } as const;
 
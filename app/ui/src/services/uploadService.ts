@@ -1,33 +1,140 @@
-import type { FileChunk, UploadFile, UploadConfig } from '../types/upload';
+import createClient from 'openapi-fetch';
+import type {
+  FileChunk,
+  FileTypePolicy,
+  ScanVerdict,
+  UploadFile,
+  UploadConfig,
+  UploadEventHandlers,
+  UploadSessionStatus,
+} from '../types/upload';
+import type { paths } from '../types/api';
+import { config as appConfig } from '../config';
+import { computeChunkChecksum, computeCompositeDigest } from '../utils/fileChunking';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
-/** Helper for JSON API calls */
-async function api<T>(endpoint: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(`${API_URL}${endpoint}`, {
-    headers: { 'Content-Type': 'application/json', ...options?.headers },
-    ...options,
-  });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data.error || res.statusText);
+let authToken = appConfig.apiToken;
+
+/** Set the bearer token attached to every API call (pass undefined to clear it) */
+export function setAuthToken(token: string | undefined) {
+  authToken = token;
+}
+
+function authHeaders(): Record<string, string> {
+  return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+}
+
+/** Error returned by the API, carrying its machine-readable code when present */
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/** Client typed from the API's OpenAPI document (regenerate with `npm run generate:api`) */
+const client = createClient<paths>({
+  // Paths in the document already start with /api
+  baseUrl: API_URL.replace(/\/api\/?$/, ''),
+});
+
+client.use({
+  onRequest({ request }) {
+    for (const [name, value] of Object.entries(authHeaders())) request.headers.set(name, value);
+    return request;
+  },
+});
+
+/** Unwrap the result of a client call, throwing ApiError if the request failed */
+async function call<T>(request: Promise<{ data?: T; error?: unknown; response: Response }>): Promise<T> {
+  const { data, error, response } = await request;
+  if (data === undefined) {
+    const body = error as { error?: string; code?: string } | undefined;
+    throw new ApiError(body?.error || response.statusText, response.status, body?.code);
+  }
+  return data;
+}
+
+/** Fetch the file types, extensions and sizes the API accepts */
+export async function getFileTypePolicy(): Promise<FileTypePolicy> {
+  const { data } = await call(client.GET('/api/upload/policy'));
   return data;
 }
 
+/** Scan verdict recorded on an upload session, if it can be read */
+async function getScanVerdict(uploadId: string): Promise<ScanVerdict | undefined> {
+  try {
+    const { data } = await call(client.GET('/api/upload/status/{uploadId}', { params: { path: { uploadId } } }));
+    return data.scan;
+  } catch {
+    return undefined;
+  }
+}
+
 /** Upload a single chunk */
 async function uploadChunk(chunk: FileChunk, endpoint: string, uploadId: string): Promise<boolean> {
   const formData = new FormData();
   formData.append('uploadId', uploadId);
   formData.append('chunkIndex', chunk.chunkIndex.toString());
   formData.append('totalChunks', chunk.totalChunks.toString());
+  formData.append('checksum', await computeChunkChecksum(chunk));
   formData.append('file', chunk.blob, chunk.fileName);
 
-  const res = await fetch(`${API_URL}${endpoint}`, { method: 'POST', body: formData });
+  const res = await fetch(`${API_URL}${endpoint}`, { method: 'POST', body: formData, headers: authHeaders() });
   const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data.error || res.statusText);
+  if (!res.ok) throw new ApiError(data.error || res.statusText, res.status, data.code);
   return data.success;
 }
 
-/** Upload chunk with retry logic */
+/** Upload a single chunk straight to S3 through a presigned URL, then report its ETag */
+async function uploadChunkDirect(chunk: FileChunk, uploadId: string): Promise<boolean> {
+  const checksum = await computeChunkChecksum(chunk);
+  const { data } = await call(
+    client.POST('/api/upload/{uploadId}/parts/sign', {
+      params: { path: { uploadId } },
+      body: { parts: [{ chunkIndex: chunk.chunkIndex, checksum }] },
+    })
+  );
+
+  // S3 verifies the body against the checksum signed into the URL
+  const res = await fetch(data.parts[0].url, {
+    method: 'PUT',
+    body: chunk.blob,
+    headers: { 'x-amz-checksum-sha256': checksum },
+  });
+  if (!res.ok) throw new Error(`S3 rejected part ${chunk.chunkIndex + 1}: ${res.statusText}`);
+
+  // The bucket's CORS configuration must expose the ETag header
+  const etag = res.headers.get('ETag');
+  if (!etag) throw new Error('S3 response is missing the ETag header (check bucket CORS ExposeHeaders)');
+
+  chunk.etag = etag;
+  const result = await call(
+    client.POST('/api/upload/{uploadId}/parts', {
+      params: { path: { uploadId } },
+      body: { chunkIndex: chunk.chunkIndex, etag, checksum },
+    })
+  );
+  return result.success;
+}
+
+/** API error codes worth retrying: the same request may succeed later */
+const RETRYABLE_CODES = new Set(['STORAGE_UNAVAILABLE', 'CHECKSUM_MISMATCH', 'RATE_LIMITED']);
+
+/** Whether a failed chunk upload should be retried */
+function isRetryable(error: unknown): boolean {
+  // Network failures and S3 rejecting a direct PUT never reach the API's error envelope
+  if (!(error instanceof ApiError)) return true;
+  return error.code ? RETRYABLE_CODES.has(error.code) : error.status >= 500;
+}
+
+/** Upload chunk with retry logic; errors the API reports as final fail the chunk at once */
 async function uploadWithRetry(
   chunk: FileChunk,
   config: UploadConfig,
@@ -39,13 +146,20 @@ async function uploadWithRetry(
       Object.assign(chunk, { status: 'uploading', retryCount: attempt });
       onUpdate();
 
-      if (await uploadChunk(chunk, config.endpoint, uploadId)) {
+      const uploaded = config.uploadMode === 'direct'
+        ? await uploadChunkDirect(chunk, uploadId)
+        : await uploadChunk(chunk, config.endpoint, uploadId);
+
+      if (uploaded) {
         Object.assign(chunk, { status: 'success', progress: 100, retryCount: 0, error: undefined });
         onUpdate();
         return;
       }
     } catch (e) {
       chunk.error = (e as Error).message;
+      // Re-read the chunk on the next attempt in case the local read was bad
+      if (e instanceof ApiError && e.code === 'CHECKSUM_MISMATCH') chunk.checksum = undefined;
+      if (!isRetryable(e)) break;
       if (attempt < config.maxRetries) {
         await new Promise(r => setTimeout(r, config.retryDelay * 2 ** attempt));
       }
@@ -56,12 +170,16 @@ async function uploadWithRetry(
   throw new Error(chunk.error || 'Upload failed after retries');
 }
 
+/** Shortest wait between heartbeats of a paused upload, and the wait after a failed one */
+const HEARTBEAT_MIN_DELAY = 30 * 1000;
+
 /** Manages parallel chunk uploads with concurrency control */
 export class ChunkUploadManager {
   private config: UploadConfig;
   private queue: FileChunk[] = [];
   private paused = false;
   private uploadId?: string;
+  private heartbeat?: { timer?: ReturnType<typeof setTimeout> };
   private onChange?: (f: UploadFile) => void;
 
   constructor(config: Partial<UploadConfig> = {}) {
@@ -72,6 +190,7 @@ export class ChunkUploadManager {
       maxRetries: config.maxRetries || 3,
       retryDelay: config.retryDelay || 1000,
       endpoint: config.endpoint || '/upload/chunk',
+      uploadMode: config.uploadMode || appConfig.defaultUploadMode,
     };
   }
 
@@ -82,11 +201,10 @@ export class ChunkUploadManager {
   /** Sync local state with backend */
   private async syncWithBackend(file: UploadFile, uploadId: string): Promise<void> {
     try {
-      const { success, data } = await api<{ success: boolean; data?: { uploadedChunks: number[] } }>(
-        `/upload/status/${uploadId}`,
-        { method: 'GET' }
+      const { success, data } = await call(
+        client.GET('/api/upload/status/{uploadId}', { params: { path: { uploadId } } })
       );
-      if (!success || !data) return;
+      if (!success) return;
 
       const uploaded = new Set(data.uploadedChunks);
       file.chunks.forEach(chunk => {
@@ -104,6 +222,7 @@ export class ChunkUploadManager {
 
   /** Start or resume file upload */
   async uploadFile(file: UploadFile): Promise<void> {
+    this.stopHeartbeat();
     try {
       // Reset state for new uploads
       if (!file.backendUploadId) {
@@ -113,15 +232,34 @@ export class ChunkUploadManager {
 
       // Initiate or resume
       if (!this.uploadId) {
-        const { data } = await api<{ data: { uploadId: string } }>('/upload/initiate', {
-          method: 'POST',
-          body: JSON.stringify({
-            fileName: file.file.name,
-            fileSize: file.file.size,
-            fileType: file.file.type,
-            chunkSize: this.config.chunkSize,
-          }),
-        });
+        file.compositeSha256 ||= await computeCompositeDigest(file);
+        const { data } = await call(
+          client.POST('/api/upload/initiate', {
+            body: {
+              fileName: file.file.name,
+              fileSize: file.file.size,
+              fileType: file.file.type || 'application/octet-stream',
+              chunkSize: this.config.chunkSize,
+              uploadMode: this.config.uploadMode,
+              compositeSha256: file.compositeSha256,
+            },
+          })
+        );
+        // The backend already has this exact content: nothing left to send
+        if (data.deduplicated) {
+          file.chunks.forEach(c => Object.assign(c, { status: 'success', progress: 100, error: undefined }));
+          Object.assign(file, {
+            status: 'completed',
+            deduplicated: true,
+            backendUploadId: data.uploadId,
+            uploadedSize: file.totalSize,
+            progress: 100,
+            startTime: file.startTime || Date.now(),
+            endTime: Date.now(),
+          });
+          this.notify(file);
+          return;
+        }
         this.uploadId = file.backendUploadId = data.uploadId;
       } else {
         await this.syncWithBackend(file, this.uploadId);
@@ -144,15 +282,19 @@ export class ChunkUploadManager {
 
       const failed = file.chunks.filter(c => c.status === 'error');
       if (failed.length === 0) {
-        await api('/upload/complete', {
-          method: 'POST',
-          body: JSON.stringify({
-            uploadId: this.uploadId,
-            totalChunks: file.chunks.length,
-            fileName: file.file.name,
-          }),
-        });
-        Object.assign(file, { status: 'completed', endTime: Date.now(), progress: 100 });
+        const { data } = await call(
+          client.POST('/api/upload/complete', {
+            body: {
+              uploadId: this.uploadId,
+              totalChunks: file.chunks.length,
+              fileName: file.file.name,
+              parts: this.config.uploadMode === 'direct'
+                ? file.chunks.flatMap(c => (c.etag ? [{ chunkIndex: c.chunkIndex, etag: c.etag }] : []))
+                : undefined,
+            },
+          })
+        );
+        Object.assign(file, { status: 'completed', endTime: Date.now(), progress: 100, scan: data.scan });
         this.uploadId = undefined;
         this.onChange?.(file);
       } else {
@@ -164,6 +306,9 @@ export class ChunkUploadManager {
     } catch (e) {
       file.status = 'failed';
       file.error = (e as Error).message;
+      if (e instanceof ApiError && e.code === 'MALWARE_DETECTED' && this.uploadId) {
+        file.scan = await getScanVerdict(this.uploadId);
+      }
       this.uploadId = undefined;
       this.onChange?.(file);
     }
@@ -188,7 +333,44 @@ export class ChunkUploadManager {
     this.notify(file);
   }
 
-  pause() { this.paused = true; }
+  pause() {
+    this.paused = true;
+    this.startHeartbeat();
+  }
+
+  /**
+   * Keep the backend session alive while paused: without parts arriving it
+   * expires. Each heartbeat is sent halfway to the new expiry.
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const uploadId = this.uploadId;
+    if (!uploadId) return;
+
+    const run: { timer?: ReturnType<typeof setTimeout> } = {};
+    this.heartbeat = run;
+
+    const beat = async () => {
+      let delay = HEARTBEAT_MIN_DELAY;
+      try {
+        const { data } = await call(
+          client.POST('/api/upload/{uploadId}/extend', { params: { path: { uploadId } } })
+        );
+        // The session can't outlive its maximum lifetime; further heartbeats won't help
+        if (data.expiresAt >= data.maxExpiresAt) return;
+        delay = Math.max((data.expiresAt - Date.now()) / 2, HEARTBEAT_MIN_DELAY);
+      } catch (e) {
+        if (!isRetryable(e)) return;
+      }
+      if (this.heartbeat === run) run.timer = setTimeout(beat, delay);
+    };
+    void beat();
+  }
+
+  private stopHeartbeat(): void {
+    clearTimeout(this.heartbeat?.timer);
+    this.heartbeat = undefined;
+  }
 
   async resume(file: UploadFile): Promise<void> {
     this.paused = false;
@@ -217,12 +399,10 @@ export class ChunkUploadManager {
 
   async cancel(): Promise<void> {
     this.paused = true;
+    this.stopHeartbeat();
     this.queue = [];
     if (this.uploadId) {
-      await api('/upload/cancel', {
-        method: 'POST',
-        body: JSON.stringify({ uploadId: this.uploadId }),
-      }).catch(() => {});
+      await call(client.POST('/api/upload/cancel', { body: { uploadId: this.uploadId } })).catch(() => {});
       this.uploadId = undefined;
     }
   }
@@ -230,3 +410,45 @@ export class ChunkUploadManager {
   getConfig(): UploadConfig { return { ...this.config }; }
 }
 
+/**
+ * Follow the progress of an upload from anywhere, e.g. a second browser window.
+ * EventSource can't send headers, so the token goes in the query string.
+ * Returns a function that closes the stream.
+ */
+export function subscribeToUploadEvents(uploadId: string, handlers: UploadEventHandlers): () => void {
+  const query = authToken ? `?access_token=${encodeURIComponent(authToken)}` : '';
+  const source = new EventSource(`${API_URL}/upload/${encodeURIComponent(uploadId)}/events${query}`);
+  let finished = false;
+
+  const finish = () => {
+    finished = true;
+    source.close();
+  };
+
+  const on = <T>(event: string, handler?: (data: T) => void, isLast?: (data: T) => boolean) =>
+    source.addEventListener(event, (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as T;
+      if (isLast?.(data)) finish();
+      handler?.(data);
+    });
+
+  const isOver = ({ status }: { status: UploadSessionStatus }) =>
+    status === 'completed' || status === 'quarantined' || status === 'failed' || status === 'cancelled';
+
+  on('snapshot', handlers.onSnapshot, isOver);
+  on('part-uploaded', handlers.onPartUploaded);
+  on('status-changed', handlers.onStatusChanged, ({ status }) =>
+    status === 'quarantined' || status === 'failed' || status === 'cancelled'
+  );
+  on('completed', handlers.onCompleted, () => true);
+  on('expired', handlers.onExpired, () => true);
+
+  // The server ends the stream once the upload is over; don't let EventSource reconnect
+  source.onerror = (e) => {
+    if (finished) return;
+    if (source.readyState === EventSource.CLOSED) finished = true;
+    handlers.onError?.(e);
+  };
+
+  return finish;
+}
@@ -9,12 +9,17 @@ export interface FileChunk {
   retryCount: number;
   status: 'pending' | 'uploading' | 'success' | 'error';
   progress: number;
+  checksum?: string; // Base64 SHA-256 of the chunk, computed before upload
+  etag?: string; // Set by S3 in direct upload mode
   error?: string;
 }
 
 export interface UploadFile {
   id: string; // Client-side ID for React key
   backendUploadId?: string; // Backend upload ID from /upload/initiate
+  compositeSha256?: string; // Composite digest of the chunks, verified by the backend on completion
+  deduplicated?: boolean; // Content was already uploaded, so no chunks were sent
+  scan?: ScanVerdict; // Set when the API scanned the assembled file for malware
   file: File;
   chunks: FileChunk[];
   totalSize: number;
@@ -26,12 +31,15 @@ export interface UploadFile {
   error?: string;
 }
 
+export type UploadMode = 'proxy' | 'direct';
+
 export interface UploadConfig {
   chunkSize: number; // in bytes
   maxParallelChunks: number;
   maxRetries: number;
   retryDelay: number; // in milliseconds
   endpoint: string;
+  uploadMode: UploadMode;
 }
 
 export interface ChunkUploadResponse {
@@ -40,3 +48,72 @@ export interface ChunkUploadResponse {
   message?: string;
 }
 
+
+/** Which files the API accepts (GET /upload/policy) */
+export interface FileTypePolicy {
+  allowedTypes: string[]; // MIME types, may end in /*; empty allows all not denied
+  deniedTypes: string[];
+  allowedExtensions: string[]; // Lowercase with a leading dot; empty allows all not denied
+  deniedExtensions: string[];
+  maxFileSize: number;
+  maxSizes: Record<string, number>; // Per MIME type or family (image/*)
+  contentSniffing: boolean;
+}
+
+
+/** Result of the API's malware scan of a completed upload */
+export interface ScanVerdict {
+  verdict: 'clean' | 'infected';
+  signature?: string; // Name of the malware found
+  scanner: string;
+  scannedAt: number;
+}
+
+export type UploadSessionStatus =
+  | 'pending'
+  | 'uploading'
+  | 'scanning'
+  | 'completed'
+  | 'quarantined'
+  | 'failed'
+  | 'cancelled';
+
+/** Session state sent when an event stream opens */
+export interface UploadStatusSnapshot {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  uploadedChunks: number[];
+  totalChunks: number;
+  status: UploadSessionStatus;
+  compositeSha256?: string;
+  scan?: ScanVerdict;
+  expiresAt: number;
+}
+
+/** Callbacks for the events of GET /upload/:uploadId/events */
+export interface UploadEventHandlers {
+  onSnapshot?: (status: UploadStatusSnapshot) => void;
+  onPartUploaded?: (part: {
+    chunkIndex: number;
+    partNumber: number;
+    uploadedChunks: number;
+    totalChunks: number;
+  }) => void;
+  onStatusChanged?: (change: {
+    status: UploadSessionStatus;
+    previous: UploadSessionStatus;
+    scan?: ScanVerdict;
+  }) => void;
+  onCompleted?: (result: {
+    fileName: string;
+    fileSize: number;
+    s3Key: string;
+    s3Url: string;
+    compositeSha256: string;
+    scan?: ScanVerdict;
+    completedAt: number;
+  }) => void;
+  onExpired?: (expiry: { expiresAt: number }) => void;
+  onError?: (event: Event) => void;
+}
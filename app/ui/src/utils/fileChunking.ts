@@ -2,6 +2,9 @@ import type { FileChunk, UploadFile } from '../types/upload';
 
 /**
  * Creates chunks from a file
+ *
+ * Checksums are not read here: hashing means reading the whole file, so it is
+ * deferred to computeChunkChecksum() right before each chunk is sent.
  */
 export function createFileChunks(file: File, chunkSize: number): FileChunk[] {
   const chunks: FileChunk[] = [];
@@ -29,6 +32,39 @@ export function createFileChunks(file: File, chunkSize: number): FileChunk[] {
   return chunks;
 }
 
+/**
+ * Computes (once) the base64 SHA-256 digest of a chunk, as sent to S3 in
+ * `x-amz-checksum-sha256`
+ */
+export async function computeChunkChecksum(chunk: FileChunk): Promise<string> {
+  if (!chunk.checksum) {
+    const digest = await crypto.subtle.digest('SHA-256', await chunk.blob.arrayBuffer());
+    chunk.checksum = btoa(String.fromCharCode(...new Uint8Array(digest)));
+  }
+  return chunk.checksum;
+}
+
+/**
+ * Computes the composite digest the API verifies at completion: the SHA-256 of
+ * the concatenated binary chunk digests, base64-encoded and suffixed with
+ * `-<chunkCount>` (the S3 composite checksum format). It is not a hash of the
+ * file and changes with the chunk size.
+ *
+ * Chunks are hashed one at a time so memory stays bounded by the chunk size.
+ */
+export async function computeCompositeDigest(uploadFile: UploadFile): Promise<string> {
+  const digests = new Uint8Array(uploadFile.chunks.length * 32);
+
+  for (const chunk of uploadFile.chunks) {
+    const checksum = await computeChunkChecksum(chunk);
+    const bytes = Uint8Array.from(atob(checksum), c => c.charCodeAt(0));
+    digests.set(bytes, chunk.chunkIndex * 32);
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', digests);
+  return `${btoa(String.fromCharCode(...new Uint8Array(digest)))}-${uploadFile.chunks.length}`;
+}
+
 /**
  * Creates an UploadFile object from a File
  */
@@ -0,0 +1,33 @@
+import type { FileTypePolicy } from '../types/upload';
+import { formatBytes } from './fileChunking';
+
+const matchesType = (pattern: string, type: string) =>
+  pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : pattern === type;
+
+/**
+ * Checks a file against the API's file type policy before uploading it
+ *
+ * Mirrors the checks made by /upload/initiate, so a file rejected here would
+ * be rejected there too. Content is only checked by the API.
+ * Returns the reason the file is rejected, or null if it may be uploaded.
+ */
+export function validateFile(file: File, policy: FileTypePolicy): string | null {
+  const type = (file.type || 'application/octet-stream').toLowerCase();
+  const name = file.name.toLowerCase();
+
+  const typeAllowed =
+    !policy.deniedTypes.some(p => matchesType(p, type)) &&
+    (policy.allowedTypes.length === 0 || policy.allowedTypes.some(p => matchesType(p, type)));
+  if (!typeAllowed) return `Files of type ${type} are not accepted`;
+
+  const extensionAllowed =
+    !policy.deniedExtensions.some(ext => name.endsWith(ext)) &&
+    (policy.allowedExtensions.length === 0 || policy.allowedExtensions.some(ext => name.endsWith(ext)));
+  if (!extensionAllowed) return `Files named ${file.name} are not accepted`;
+
+  const limit = policy.maxSizes[type] ?? policy.maxSizes[`${type.split('/')[0]}/*`];
+  const maxSize = limit === undefined ? policy.maxFileSize : Math.min(limit, policy.maxFileSize);
+  if (file.size > maxSize) return `${file.name} is larger than the ${formatBytes(maxSize)} allowed for ${type}`;
+
+  return null;
+}